@@ -0,0 +1,264 @@
+import { createHash, randomUUID } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+
+import data from "./fhir-stand-in-data.json";
+
+/**
+ * A small HAPI-style FHIR R4 server with a SMART on FHIR authorization server,
+ * mounted on the Vite dev server at `/fhir`. It serves the patients in
+ * `fhir-stand-in-data.json`, approves every authorization request without a
+ * login, and checks PKCE and bearer tokens the way a real EHR would.
+ *
+ * Open `/fhir/launch` to simulate launching the app from an EHR.
+ */
+
+const BASE_PATH = "/fhir";
+const TOKEN_LIFETIME_SECONDS = 3600;
+
+type Resource = { resourceType: string; id: string; subject?: { reference?: string }; [key: string]: unknown };
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  scope: string;
+  patient: string;
+}
+
+const resources = data.entry.map((entry) => entry.resource as Resource);
+const patients = resources.filter((resource) => resource.resourceType === "Patient");
+/** Launch ids handed to the app by `/fhir/launch`, mapped to the patient in context. */
+const launches = new Map<string, string>();
+const codes = new Map<string, PendingCode>();
+const tokens = new Map<string, { patient: string; expiresAt: number }>();
+
+const patientName = (patient: Resource) => {
+  const [name] = (patient.name as { given?: string[]; family?: string }[] | undefined) ?? [];
+  return [...(name?.given ?? []), name?.family].filter(Boolean).join(" ") || patient.id;
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, contentType = "application/fhir+json") => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", contentType);
+  res.end(JSON.stringify(body));
+};
+
+const sendHtml = (res: ServerResponse, title: string, links: { href: string; label: string }[]) => {
+  res.statusCode = 200;
+  res.setHeader("Content-Type", "text/html");
+  const items = links.map(({ href, label }) => `<li><a href="${href}">${label}</a></li>`).join("");
+  res.end(`<!doctype html><title>${title}</title><h1>${title}</h1><ul>${items}</ul>`);
+};
+
+const redirect = (res: ServerResponse, location: string) => {
+  res.statusCode = 302;
+  res.setHeader("Location", location);
+  res.end();
+};
+
+const operationOutcome = (res: ServerResponse, status: number, code: string, diagnostics: string) =>
+  sendJson(res, status, {
+    resourceType: "OperationOutcome",
+    issue: [{ severity: "error", code, diagnostics }],
+  });
+
+const oauthError = (res: ServerResponse, error: string, description: string) =>
+  sendJson(res, 400, { error, error_description: description }, "application/json");
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+
+const base64UrlSha256 = (value: string) => createHash("sha256").update(value).digest("base64url");
+
+const searchset = (entries: Resource[], baseUrl: string) => ({
+  resourceType: "Bundle",
+  type: "searchset",
+  total: entries.length,
+  entry: entries.map((resource) => ({
+    fullUrl: `${baseUrl}/${resource.resourceType}/${resource.id}`,
+    resource,
+    search: { mode: "match" },
+  })),
+});
+
+/** Token codes in a `code` search parameter, e.g. `http://loinc.org|4548-4,2345-7`. */
+const matchesCodeParam = (resource: Resource, param: string | null) => {
+  if (!param) return true;
+  const wanted = param.split(",").map((token) => token.split("|").pop());
+  const codings = (resource.code as { coding?: { code?: string }[] } | undefined)?.coding ?? [];
+  return codings.some((coding) => wanted.includes(coding.code));
+};
+
+function handleAuthorize(url: URL, res: ServerResponse, baseUrl: string) {
+  const params = url.searchParams;
+  const redirectUri = params.get("redirect_uri");
+  if (!redirectUri) return oauthError(res, "invalid_request", "redirect_uri is required");
+  if (params.get("response_type") !== "code") return oauthError(res, "unsupported_response_type", "Use code");
+  if (params.get("aud") !== baseUrl) return oauthError(res, "invalid_request", `aud must be ${baseUrl}`);
+  if (params.get("code_challenge_method") !== "S256" || !params.get("code_challenge")) {
+    return oauthError(res, "invalid_request", "PKCE with S256 is required");
+  }
+
+  const launch = params.get("launch");
+  const patient = launch ? launches.get(launch) : params.get("patient");
+  if (launch && !patient) return oauthError(res, "invalid_request", "Unknown launch id");
+  if (!patient) {
+    // Standalone launch: ask which patient to open, like an EHR's patient picker.
+    return sendHtml(
+      res,
+      "Select a patient",
+      patients.map((candidate) => {
+        const next = new URL(url);
+        next.searchParams.set("patient", candidate.id);
+        return { href: `${next.pathname}${next.search}`, label: patientName(candidate) };
+      }),
+    );
+  }
+
+  const code = randomUUID();
+  codes.set(code, {
+    clientId: params.get("client_id") ?? "",
+    redirectUri,
+    codeChallenge: params.get("code_challenge") ?? "",
+    scope: params.get("scope") ?? "",
+    patient,
+  });
+  const target = new URL(redirectUri);
+  target.searchParams.set("code", code);
+  target.searchParams.set("state", params.get("state") ?? "");
+  redirect(res, target.toString());
+}
+
+async function handleToken(req: IncomingMessage, res: ServerResponse) {
+  const params = new URLSearchParams(await readBody(req));
+  const code = params.get("code") ?? "";
+  const pending = codes.get(code);
+  codes.delete(code);
+
+  if (params.get("grant_type") !== "authorization_code") {
+    return oauthError(res, "unsupported_grant_type", "Only authorization_code is supported");
+  }
+  if (!pending) return oauthError(res, "invalid_grant", "Unknown or already used code");
+  if (pending.redirectUri !== params.get("redirect_uri") || pending.clientId !== params.get("client_id")) {
+    return oauthError(res, "invalid_grant", "redirect_uri or client_id does not match the authorization request");
+  }
+  if (base64UrlSha256(params.get("code_verifier") ?? "") !== pending.codeChallenge) {
+    return oauthError(res, "invalid_grant", "code_verifier does not match code_challenge");
+  }
+
+  const accessToken = randomUUID();
+  tokens.set(accessToken, { patient: pending.patient, expiresAt: Date.now() + TOKEN_LIFETIME_SECONDS * 1000 });
+  sendJson(
+    res,
+    200,
+    {
+      access_token: accessToken,
+      token_type: "Bearer",
+      expires_in: TOKEN_LIFETIME_SECONDS,
+      scope: pending.scope,
+      patient: pending.patient,
+    },
+    "application/json",
+  );
+}
+
+function handleRead(req: IncomingMessage, url: URL, path: string, res: ServerResponse, baseUrl: string) {
+  const token = tokens.get(req.headers.authorization?.replace(/^Bearer /, "") ?? "");
+  if (!token || token.expiresAt < Date.now()) {
+    return operationOutcome(res, 401, "login", "A valid bearer token is required");
+  }
+
+  const [type, id] = path.split("/").filter(Boolean);
+  if (id) {
+    const resource = resources.find((candidate) => candidate.resourceType === type && candidate.id === id);
+    if (!resource) return operationOutcome(res, 404, "not-found", `${type}/${id} is not known`);
+    const patient = type === "Patient" ? resource.id : resource.subject?.reference?.replace("Patient/", "");
+    if (patient !== token.patient) return operationOutcome(res, 403, "forbidden", "Outside the launch context");
+    return sendJson(res, 200, resource);
+  }
+
+  const patient = url.searchParams.get("patient") ?? url.searchParams.get("subject")?.replace("Patient/", "");
+  if (patient !== token.patient) {
+    return operationOutcome(res, 403, "forbidden", "Searches must be limited to the patient in context");
+  }
+  const matches = resources
+    .filter((resource) => resource.resourceType === type && resource.subject?.reference === `Patient/${patient}`)
+    .filter((resource) => matchesCodeParam(resource, url.searchParams.get("code")));
+  sendJson(res, 200, searchset(matches, baseUrl));
+}
+
+export function fhirStandIn(): Plugin {
+  return {
+    name: "fhir-stand-in",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use(BASE_PATH, (req, res, next) => {
+        const origin = `http://${req.headers.host}`;
+        const baseUrl = `${origin}${BASE_PATH}`;
+        const url = new URL(req.url ?? "/", baseUrl);
+        const path = url.pathname;
+
+        if (path === "/.well-known/smart-configuration") {
+          return sendJson(
+            res,
+            200,
+            {
+              authorization_endpoint: `${baseUrl}/auth/authorize`,
+              token_endpoint: `${baseUrl}/auth/token`,
+              grant_types_supported: ["authorization_code"],
+              code_challenge_methods_supported: ["S256"],
+              capabilities: [
+                "launch-ehr",
+                "launch-standalone",
+                "client-public",
+                "context-ehr-patient",
+                "context-standalone-patient",
+                "permission-patient",
+              ],
+            },
+            "application/json",
+          );
+        }
+        if (path === "/metadata") {
+          return sendJson(res, 200, {
+            resourceType: "CapabilityStatement",
+            status: "active",
+            kind: "instance",
+            fhirVersion: "4.0.1",
+            format: ["application/fhir+json"],
+          });
+        }
+        if (path === "/launch") {
+          const patient = url.searchParams.get("patient");
+          if (!patient) {
+            return sendHtml(
+              res,
+              "Launch the app for a patient",
+              patients.map((candidate) => ({
+                href: `${BASE_PATH}/launch?patient=${candidate.id}`,
+                label: patientName(candidate),
+              })),
+            );
+          }
+          const launch = randomUUID();
+          launches.set(launch, patient);
+          return redirect(res, `/smart/launch?iss=${encodeURIComponent(baseUrl)}&launch=${launch}`);
+        }
+        if (path === "/auth/authorize") return handleAuthorize(url, res, baseUrl);
+        if (path === "/auth/token" && req.method === "POST") {
+          return handleToken(req, res).catch(next);
+        }
+        if (/^\/(Patient|Observation|Condition)(\/|$)/.test(path) && req.method === "GET") {
+          return handleRead(req, url, path, res, baseUrl);
+        }
+        operationOutcome(res, 404, "not-supported", `${req.method} ${path} is not supported by the stand-in`);
+      });
+    },
+  };
+}
@@ -3,8 +3,13 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import Batch from "./pages/Batch";
+import History from "./pages/History";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import Report from "./pages/Report";
+import SmartCallback from "./pages/SmartCallback";
+import SmartLaunch from "./pages/SmartLaunch";
 
 const queryClient = new QueryClient();
 
@@ -16,6 +21,11 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/history" element={<History />} />
+          <Route path="/batch" element={<Batch />} />
+          <Route path="/report" element={<Report />} />
+          <Route path="/smart/launch" element={<SmartLaunch />} />
+          <Route path="/smart/callback" element={<SmartCallback />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,23 @@
+import { NavLink } from "@/components/NavLink";
+
+const LINKS = [
+  { to: "/", label: "Assessment" },
+  { to: "/history", label: "History" },
+  { to: "/batch", label: "Batch" },
+];
+
+export const AppNav = () => (
+  <nav className="flex items-center gap-1 text-sm">
+    {LINKS.map((link) => (
+      <NavLink
+        key={link.to}
+        to={link.to}
+        end
+        className="rounded-md px-3 py-1.5 text-muted-foreground transition-colors hover:text-foreground"
+        activeClassName="bg-accent text-foreground font-medium"
+      >
+        {link.label}
+      </NavLink>
+    ))}
+  </nav>
+);
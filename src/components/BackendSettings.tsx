@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Settings2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { useMockBackendSettings } from "@/hooks/use-mock-backend";
+import type { MockBackendSettings, MockFailureMode } from "@/lib/mock-prediction-server";
+import { getPredictionApiBaseUrl, resetPredictionCircuit, setPredictionApiBaseUrl } from "@/lib/prediction-client";
+
+const FAILURE_MODES: { value: MockFailureMode; label: string }[] = [
+  { value: "none", label: "No failures" },
+  { value: "network", label: "Network error" },
+  { value: "timeout", label: "Never responds (timeout)" },
+  { value: "server-error", label: "503 Service Unavailable" },
+  { value: "validation-error", label: "422 Validation error" },
+  { value: "malformed", label: "Malformed response" },
+];
+
+/** Header control for choosing the prediction backend and configuring the mock stand-in. */
+export const BackendSettings = () => {
+  const [mock, updateMock] = useMockBackendSettings();
+  const [apiUrl, setApiUrl] = useState(getPredictionApiBaseUrl);
+
+  const update = (patch: Partial<MockBackendSettings>) => {
+    updateMock(patch);
+    resetPredictionCircuit();
+  };
+
+  const saveApiUrl = () => {
+    setPredictionApiBaseUrl(apiUrl || null);
+    setApiUrl(getPredictionApiBaseUrl());
+  };
+
+  const resetApiUrl = () => {
+    setPredictionApiBaseUrl(null);
+    setApiUrl(getPredictionApiBaseUrl());
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      {mock.enabled && <Badge variant="secondary">Mock backend</Badge>}
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" aria-label="Backend settings">
+            <Settings2 />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="apiUrl">Prediction API URL</Label>
+            <Input id="apiUrl" value={apiUrl} onChange={(event) => setApiUrl(event.target.value)} />
+            <div className="flex gap-2">
+              <Button size="sm" onClick={saveApiUrl}>
+                Save
+              </Button>
+              <Button size="sm" variant="outline" onClick={resetApiUrl}>
+                Reset
+              </Button>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="mockBackend">Use mock backend</Label>
+            <Switch id="mockBackend" checked={mock.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Answers <code>/predict</code> in the browser with deterministic rule-based results, so no server is needed.
+          </p>
+
+          <div className="space-y-2">
+            <Label>Latency: {mock.latencyMs} ms</Label>
+            <Slider
+              min={0}
+              max={5000}
+              step={100}
+              value={[mock.latencyMs]}
+              onValueChange={([latencyMs]) => update({ latencyMs })}
+              disabled={!mock.enabled}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="failureMode">Failure injection</Label>
+            <Select
+              value={mock.failureMode}
+              onValueChange={(failureMode) => update({ failureMode: failureMode as MockFailureMode })}
+              disabled={!mock.enabled}
+            >
+              <SelectTrigger id="failureMode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FAILURE_MODES.map((mode) => (
+                  <SelectItem key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Failure rate: {Math.round(mock.failureRate * 100)}%</Label>
+            <Slider
+              min={0}
+              max={100}
+              step={5}
+              value={[mock.failureRate * 100]}
+              onValueChange={([rate]) => update({ failureRate: rate / 100 })}
+              disabled={!mock.enabled || mock.failureMode === "none"}
+            />
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { Calculator } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  bmiFromMeasurements,
+  formatHeight,
+  MEASUREMENT_LIMITS,
+  toFeetAndInches,
+  type BodyMeasurements,
+  type MeasurementSystem,
+} from "@/lib/bmi";
+import { formSchema } from "@/lib/prediction-schema";
+import {
+  BMI_CATEGORY_LABELS,
+  BMI_CUTOFFS,
+  bmiCategory,
+  type BmiCategory,
+  type BmiCutoffs,
+} from "@/lib/reference-ranges";
+import { feetAndInchesToCm, kgToPounds, poundsToKg, roundTo } from "@/lib/units";
+
+const CATEGORY_BADGE_CLASSES: Record<BmiCategory, string> = {
+  underweight: "border-warning text-warning",
+  normal: "border-success text-success",
+  overweight: "border-warning text-warning",
+  obese: "border-destructive text-destructive",
+};
+
+type MeasurementFields = Record<"cm" | "kg" | "ft" | "in" | "lb", string>;
+
+const EMPTY_FIELDS: MeasurementFields = { cm: "", kg: "", ft: "", in: "", lb: "" };
+
+/** The inputs for both systems filled from stored measurements. */
+function fieldsFrom({ heightCm, weightKg }: BodyMeasurements): MeasurementFields {
+  const { feet, inches } = toFeetAndInches(heightCm);
+  return {
+    cm: String(roundTo(heightCm, 1)),
+    kg: String(roundTo(weightKg, 1)),
+    ft: String(feet),
+    in: String(inches),
+    lb: String(roundTo(kgToPounds(weightKg), 0)),
+  };
+}
+
+const parse = (value: string) => (value.trim() === "" ? NaN : Number(value));
+
+/** What the inputs for `system` describe, in metric; `undefined` until both height and weight are numbers. */
+function readMeasurements(system: MeasurementSystem, fields: MeasurementFields): BodyMeasurements | undefined {
+  // A height in whole feet may leave the inches blank.
+  const inches = fields.in.trim() ? parse(fields.in) : 0;
+  const heightCm = system === "metric" ? parse(fields.cm) : feetAndInchesToCm(parse(fields.ft), inches);
+  const weightKg = system === "metric" ? parse(fields.kg) : poundsToKg(parse(fields.lb));
+  if (!Number.isFinite(heightCm) || !Number.isFinite(weightKg)) return undefined;
+  return { heightCm: roundTo(heightCm, 1), weightKg: roundTo(weightKg, 1), system };
+}
+
+/** Why the measurements can't give a BMI for the form, or `undefined` when they can. */
+function measurementProblem(measurements: BodyMeasurements, bmi: number) {
+  const { heightCm, weightKg } = MEASUREMENT_LIMITS;
+  const { system } = measurements;
+  if (measurements.heightCm < heightCm.min || measurements.heightCm > heightCm.max) {
+    const [min, max] = [heightCm.min, heightCm.max].map((cm) => formatHeight({ heightCm: cm, system }));
+    return `Height should be between ${min} and ${max}.`;
+  }
+  if (measurements.weightKg < weightKg.min || measurements.weightKg > weightKg.max) {
+    const [min, max] = [weightKg.min, weightKg.max].map((kg) =>
+      system === "metric" ? `${kg} kg` : `${roundTo(kgToPounds(kg), 0)} lb`,
+    );
+    return `Weight should be between ${min} and ${max}.`;
+  }
+  const { minValue, maxValue } = formSchema.shape.bmi;
+  if (bmi < minValue || bmi > maxValue) return `A BMI of ${bmi} is outside the ${minValue}–${maxValue} the model accepts.`;
+  return undefined;
+}
+
+interface BmiCalculatorProps {
+  /** The measurements behind the current BMI, shown again when the calculator is reopened. */
+  measurements?: BodyMeasurements;
+  onApply: (bmi: number, measurements: BodyMeasurements) => void;
+}
+
+/** Works out BMI from height and weight in metric or imperial units, with its WHO (or Asian) category. */
+export const BmiCalculator = ({ measurements, onApply }: BmiCalculatorProps) => {
+  const [open, setOpen] = useState(false);
+  const [system, setSystem] = useState<MeasurementSystem>("metric");
+  const [fields, setFields] = useState<MeasurementFields>(EMPTY_FIELDS);
+  const [cutoffs, setCutoffs] = useState<BmiCutoffs>("who");
+
+  const current = readMeasurements(system, fields);
+  const bmi = current && bmiFromMeasurements(current);
+  const problem = current && measurementProblem(current, bmi);
+  const category = bmi && !problem ? bmiCategory(bmi, cutoffs) : undefined;
+
+  const openChange = (next: boolean) => {
+    setOpen(next);
+    if (next && measurements) {
+      setSystem(measurements.system);
+      setFields(fieldsFrom(measurements));
+    }
+  };
+
+  // Whatever was entered carries over to the other system.
+  const switchSystem = (next: MeasurementSystem) => {
+    if (current) setFields(fieldsFrom(current));
+    setSystem(next);
+  };
+
+  const field = (name: keyof MeasurementFields, label: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`bmi-${name}`} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={`bmi-${name}`}
+        type="number"
+        min={0}
+        step="any"
+        value={fields[name]}
+        onChange={(event) => setFields((previous) => ({ ...previous, [name]: event.target.value }))}
+      />
+    </div>
+  );
+
+  const apply = () => {
+    onApply(bmi, { ...current, system });
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={openChange}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline">
+          <Calculator />
+          Calculate
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-4">
+        <p className="text-sm font-medium">BMI from height and weight</p>
+        <Tabs value={system} onValueChange={(value) => switchSystem(value as MeasurementSystem)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="metric">cm / kg</TabsTrigger>
+            <TabsTrigger value="imperial">ft, in / lb</TabsTrigger>
+          </TabsList>
+          <TabsContent value="metric" className="grid grid-cols-2 gap-2">
+            {field("cm", "Height (cm)")}
+            {field("kg", "Weight (kg)")}
+          </TabsContent>
+          <TabsContent value="imperial" className="grid grid-cols-3 gap-2">
+            {field("ft", "Height (ft)")}
+            {field("in", "(in)")}
+            {field("lb", "Weight (lb)")}
+          </TabsContent>
+        </Tabs>
+
+        {problem && <p className="text-xs text-destructive">{problem}</p>}
+        {category && (
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-sm">
+              BMI <span className="font-semibold">{bmi.toFixed(1)}</span> kg/m²
+            </p>
+            <Badge variant="outline" className={CATEGORY_BADGE_CLASSES[category]}>
+              {BMI_CATEGORY_LABELS[category]}
+            </Badge>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor="bmiCutoffs" className="text-xs text-muted-foreground">
+            Cut-offs
+          </Label>
+          <Select value={cutoffs} onValueChange={(value) => setCutoffs(value as BmiCutoffs)}>
+            <SelectTrigger id="bmiCutoffs" className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(BMI_CUTOFFS) as BmiCutoffs[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {BMI_CUTOFFS[key].label} (overweight ≥{BMI_CUTOFFS[key].thresholds.overweight}, obese ≥
+                  {BMI_CUTOFFS[key].thresholds.obese})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button type="button" variant="medical" className="w-full" disabled={!category} onClick={apply}>
+          {category ? `Use BMI ${bmi.toFixed(1)}` : "Use BMI"}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,248 @@
+import { useState } from "react";
+import { ArrowLeft, ArrowRight, Check, Save, Trash2 } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useMappingPresets } from "@/hooks/use-mapping-presets";
+import {
+  CATEGORICAL_FIELDS,
+  FORM_FIELDS,
+  detectMapping,
+  detectValues,
+  distinctCodes,
+  unmappedFields,
+  type ColumnMapping,
+  type DataTable,
+} from "@/lib/column-mapping";
+import { deleteMappingPreset, findMatchingPreset, saveMappingPreset } from "@/lib/mapping-presets";
+import { CATEGORICAL_OPTIONS, FORM_FIELD_LABELS, type CategoricalField, type FormData } from "@/lib/prediction-schema";
+
+const UNMAPPED = "__unmapped__";
+
+/** Starts from the newest preset that fits the file's headers, or from auto-detection. */
+function initialMapping(table: DataTable): ColumnMapping {
+  const preset = findMatchingPreset(table.headers);
+  if (!preset) return detectMapping(table);
+  const { columns, values } = preset.mapping;
+  return { columns, values: detectValues(table, columns, values) };
+}
+
+const sampleValue = (table: DataTable, header: string | undefined) => {
+  const index = header ? table.headers.indexOf(header) : -1;
+  return index === -1 ? undefined : table.rows.find((row) => row[index]?.trim())?.[index];
+};
+
+interface ColumnMappingWizardProps {
+  table: DataTable;
+  onApply: (mapping: ColumnMapping) => void;
+}
+
+/**
+ * Two steps between reading a file and validating its rows: match columns to
+ * form fields, then match each categorical code to one of the form's values.
+ * Mappings can be saved as named presets and are picked up automatically for
+ * files with the same columns.
+ */
+export const ColumnMappingWizard = ({ table, onApply }: ColumnMappingWizardProps) => {
+  const presets = useMappingPresets();
+  const [mapping, setMapping] = useState(() => initialMapping(table));
+  const [step, setStep] = useState<"columns" | "values">("columns");
+  const [presetName, setPresetName] = useState("");
+
+  const missing = unmappedFields(mapping);
+  const categoricalFields = CATEGORICAL_FIELDS.filter((field) => mapping.columns[field]);
+
+  const setColumn = (field: keyof FormData, header: string | undefined) =>
+    setMapping((current) => {
+      const columns = { ...current.columns, [field]: header };
+      return { columns, values: detectValues(table, columns, current.values) };
+    });
+
+  const setValue = (field: CategoricalField, code: string, value: string) =>
+    setMapping((current) => ({
+      ...current,
+      values: { ...current.values, [field]: { ...current.values[field], [code]: value } },
+    }));
+
+  const loadPreset = (name: string) => {
+    const preset = presets.find((candidate) => candidate.name === name);
+    if (!preset) return;
+    const columns = Object.fromEntries(
+      Object.entries(preset.mapping.columns).filter(([, header]) => table.headers.includes(header)),
+    );
+    setMapping({ columns, values: detectValues(table, columns, preset.mapping.values) });
+    setPresetName(name);
+  };
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="font-semibold text-sm">
+          {step === "columns" ? "Step 1 of 2: match columns to fields" : "Step 2 of 2: match codes to values"}
+        </p>
+        {presets.length > 0 && (
+          <Select value="" onValueChange={loadPreset}>
+            <SelectTrigger className="h-8 w-48 text-xs" aria-label="Load preset">
+              <SelectValue placeholder="Load a preset" />
+            </SelectTrigger>
+            <SelectContent>
+              {presets.map((preset) => (
+                <SelectItem key={preset.name} value={preset.name}>
+                  {preset.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {step === "columns" ? (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Field</TableHead>
+              <TableHead>Column</TableHead>
+              <TableHead>First value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {FORM_FIELDS.map((field) => (
+              <TableRow key={field}>
+                <TableCell className="font-medium">{FORM_FIELD_LABELS[field]}</TableCell>
+                <TableCell>
+                  <Select
+                    value={mapping.columns[field] ?? UNMAPPED}
+                    onValueChange={(header) => setColumn(field, header === UNMAPPED ? undefined : header)}
+                  >
+                    <SelectTrigger className="h-8 w-56" aria-label={`Column for ${FORM_FIELD_LABELS[field]}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                      {table.headers
+                        .filter((header) => header !== "")
+                        .map((header) => (
+                          <SelectItem key={header} value={header}>
+                            {header}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="text-muted-foreground">
+                  {sampleValue(table, mapping.columns[field]) ?? "–"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      ) : (
+        <div className="space-y-4">
+          {categoricalFields.map((field) => (
+            <div key={field} className="space-y-2">
+              <p className="text-sm font-medium">
+                {FORM_FIELD_LABELS[field]}{" "}
+                <span className="text-muted-foreground font-normal">from “{mapping.columns[field]}”</span>
+              </p>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {distinctCodes(table, mapping.columns[field]).map((code) => {
+                  const value = mapping.values[field]?.[code];
+                  return (
+                    <div key={code} className="flex items-center justify-between gap-2">
+                      <Badge
+                        variant={value ? "secondary" : "outline"}
+                        className={value ? undefined : "border-warning text-warning"}
+                      >
+                        {code}
+                      </Badge>
+                      <Select value={value ?? ""} onValueChange={(next) => setValue(field, code, next)}>
+                        <SelectTrigger className="h-8 w-40" aria-label={`Value for ${code}`}>
+                          <SelectValue placeholder="Choose a value" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CATEGORICAL_OPTIONS[field].map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">Rows containing a code left unmatched are reported as errors.</p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="presetName" className="text-xs text-muted-foreground">
+              Preset name
+            </Label>
+            <Input
+              id="presetName"
+              className="h-8 w-48"
+              value={presetName}
+              onChange={(event) => setPresetName(event.target.value)}
+            />
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!presetName.trim()}
+            onClick={() => saveMappingPreset(presetName.trim(), mapping)}
+          >
+            <Save />
+            Save preset
+          </Button>
+          {presets.some((preset) => preset.name === presetName.trim()) && (
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Delete preset"
+              onClick={() => {
+                deleteMappingPreset(presetName.trim());
+                setPresetName("");
+              }}
+            >
+              <Trash2 />
+            </Button>
+          )}
+        </div>
+
+        {step === "columns" ? (
+          <div className="flex items-center gap-3">
+            {missing.length > 0 && (
+              <span className="text-xs text-destructive">
+                Not mapped: {missing.map((field) => FORM_FIELD_LABELS[field]).join(", ")}
+              </span>
+            )}
+            <Button variant="medical" size="sm" disabled={missing.length > 0} onClick={() => setStep("values")}>
+              Next
+              <ArrowRight />
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setStep("columns")}>
+              <ArrowLeft />
+              Back
+            </Button>
+            <Button variant="medical" size="sm" onClick={() => onApply(mapping)}>
+              <Check />
+              Apply mapping
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
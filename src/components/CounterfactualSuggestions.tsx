@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ActivityIcon, Target } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import { findCounterfactuals, type FeatureChange } from "@/lib/counterfactual";
+import { predictOffline } from "@/lib/fallback-model";
+import { isUnreachableError, predict, type Prediction } from "@/lib/prediction-client";
+import type { FormData } from "@/lib/prediction-schema";
+import { riskScore } from "@/lib/risk-tier";
+import { formatLabValue, type LabUnits } from "@/lib/units";
+
+const SMOKING_LABELS: Record<string, string> = {
+  current: "current smoker",
+  former: "former smoker",
+};
+
+function describeChange(change: FeatureChange, units: LabUnits) {
+  switch (change.feature) {
+    case "bmi":
+      return `Lower BMI from ${change.from} to ${change.to}`;
+    case "hba1c":
+    case "bloodGlucose": {
+      const { feature: field } = change;
+      const format = (value: number | string) => formatLabValue(field, Number(value), units[field]);
+      const name = field === "hba1c" ? "HbA1c" : "blood glucose";
+      return `Lower ${name} from ${format(change.from)} to ${format(change.to)}`;
+    }
+    case "smokingHistory":
+      return `Quit smoking (${SMOKING_LABELS[change.from] ?? change.from} → ${SMOKING_LABELS[change.to] ?? change.to})`;
+  }
+}
+
+interface CounterfactualSuggestionsProps {
+  input: FormData;
+  /** The result being explained; the search asks the same model that produced it. */
+  baseline: Prediction;
+}
+
+/**
+ * Searches the model for the smallest realistic changes to modifiable inputs
+ * that would turn a diabetic prediction non-diabetic. The whole search uses
+ * one model, so targets are never compared across the server and the offline
+ * estimate; if the server stops answering partway, the search fails.
+ */
+export const CounterfactualSuggestions = ({ input, baseline }: CounterfactualSuggestionsProps) => {
+  const [requested, setRequested] = useState(false);
+  const [units] = useUnitPreferences();
+  const offline = baseline.source === "offline";
+
+  const { data, error, isFetching } = useQuery({
+    queryKey: ["counterfactuals", input, baseline.source],
+    queryFn: ({ signal }) =>
+      findCounterfactuals(input, async (scenario) =>
+        offline ? predictOffline(scenario) : predict(scenario, { signal, maxAttempts: 1 }),
+      ),
+    enabled: requested,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  return (
+    <div className="mt-4 rounded-lg border border-border p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Target className="h-4 w-4 text-primary" />
+          <p className="font-semibold text-sm">Smallest changes that lower the prediction</p>
+        </div>
+        {!requested && (
+          <Button type="button" variant="outline" size="sm" onClick={() => setRequested(true)}>
+            Find changes
+          </Button>
+        )}
+      </div>
+
+      {isFetching && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <ActivityIcon className="h-4 w-4 animate-spin" />
+          Searching the model...
+        </p>
+      )}
+      {error && (
+        <p className="text-sm text-destructive">
+          {isUnreachableError(error)
+            ? "The prediction service stopped answering during the search. Try again once it is back."
+            : `The search failed: ${error.message}`}
+        </p>
+      )}
+      {data && data.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No realistic change to BMI, HbA1c, glucose or smoking alone turns this prediction non-diabetic.
+        </p>
+      )}
+      {data && data.length > 0 && (
+        <ol className="space-y-2 text-sm">
+          {data.map((counterfactual, index) => (
+            <li key={index} className="flex items-start gap-3">
+              <Badge variant="secondary" className="shrink-0">
+                {index + 1}
+              </Badge>
+              <div className="space-y-0.5">
+                {counterfactual.changes.map((change) => (
+                  <p key={change.feature}>{describeChange(change, units)}</p>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Predicted risk afterwards: {Math.round(riskScore(counterfactual.prediction) * 100)}%
+                  {offline && " (offline estimate)"}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Age, gender, hypertension and heart disease are held fixed. Targets are model-based suggestions to discuss with a
+        healthcare professional, not treatment goals.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,60 @@
+import { Download } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "@/hooks/use-toast";
+import {
+  downloadPredictions,
+  EXPORT_FORMATS,
+  type ExportedPrediction,
+  type ExportFormat,
+} from "@/lib/prediction-export";
+
+interface ExportMenuProps {
+  predictions: ExportedPrediction[];
+  /** File name without extension; today's date is appended. */
+  fileName: string;
+}
+
+export const ExportMenu = ({ predictions, fileName }: ExportMenuProps) => {
+  const exportAs = async (format: ExportFormat) => {
+    try {
+      await downloadPredictions(predictions, format, `${fileName}-${new Date().toISOString().slice(0, 10)}`);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={predictions.length === 0}>
+          <Download />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          {predictions.length === 1 ? "1 prediction" : `${predictions.length} predictions`}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => (
+          <DropdownMenuItem key={format} onSelect={() => exportAs(format)}>
+            {EXPORT_FORMATS[format].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,50 @@
+import { Bar, BarChart, Cell, ReferenceLine, XAxis, YAxis } from "recharts";
+
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { rankContributions } from "@/lib/feature-contributions";
+import type { Prediction } from "@/lib/prediction-client";
+import type { FormData } from "@/lib/prediction-schema";
+
+const chartConfig = {
+  value: { label: "Effect on risk (log-odds)" },
+  increases: { label: "Raises risk", color: "hsl(var(--destructive))" },
+  decreases: { label: "Lowers risk", color: "hsl(var(--success))" },
+} satisfies ChartConfig;
+
+interface FeatureContributionChartProps {
+  prediction: Prediction;
+  input: FormData;
+}
+
+/** Horizontal bars showing how much each input pushed the prediction towards or away from diabetes. */
+export const FeatureContributionChart = ({ prediction, input }: FeatureContributionChartProps) => {
+  const { contributions: data, fromServer } = rankContributions(prediction, input);
+
+  return (
+    <div className="mt-4 rounded-lg border border-border p-4 space-y-2">
+      <p className="font-semibold text-sm">What drove this result</p>
+      <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+        <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }}>
+          <XAxis type="number" tickLine={false} axisLine={false} />
+          <YAxis type="category" dataKey="feature" width={120} tickLine={false} axisLine={false} />
+          <ReferenceLine x={0} stroke="hsl(var(--border))" />
+          <ChartTooltip content={<ChartTooltipContent hideIndicator />} />
+          <Bar dataKey="value" radius={4}>
+            {data.map((entry) => (
+              <Cell
+                key={entry.feature}
+                fill={entry.value >= 0 ? "var(--color-increases)" : "var(--color-decreases)"}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ChartContainer>
+      <p className="text-xs text-muted-foreground">
+        Bars to the right raised the estimated risk, bars to the left lowered it, compared with an average patient.
+        {fromServer
+          ? " Values were provided by the prediction service."
+          : " Values are approximated in the browser with the offline model and may differ from the server's reasoning."}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { FileJson } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import { FhirImportError, readFhirBundle, type FhirImportResult } from "@/lib/fhir-import";
+import { CATEGORICAL_OPTIONS, FORM_FIELD_LABELS, type CategoricalField, type FormData } from "@/lib/prediction-schema";
+import { formatLabValue, type LabUnits } from "@/lib/units";
+
+const displayValue = (field: keyof FormData, value: FormData[keyof FormData], units: LabUnits) => {
+  if (field === "hba1c" || field === "bloodGlucose") return formatLabValue(field, Number(value), units[field]);
+  const option = CATEGORICAL_OPTIONS[field as CategoricalField]?.find((candidate) => candidate.value === value);
+  return option?.label ?? String(value);
+};
+
+interface FhirImportDialogProps {
+  onApply: (values: Partial<FormData>) => void;
+}
+
+/** Reads a FHIR R4 Bundle, shows what it found and fills the form once the user confirms. */
+export const FhirImportDialog = ({ onApply }: FhirImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [result, setResult] = useState<FhirImportResult>();
+  const [error, setError] = useState<{ message: string; issues: string[] }>();
+  const [units] = useUnitPreferences();
+
+  const read = (json: string) => {
+    setResult(undefined);
+    setError(undefined);
+    try {
+      setResult(readFhirBundle(JSON.parse(json)));
+    } catch (caught) {
+      if (caught instanceof FhirImportError) setError({ message: caught.message, issues: caught.issues });
+      else if (caught instanceof SyntaxError) setError({ message: `Not valid JSON: ${caught.message}`, issues: [] });
+      else throw caught;
+    }
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    const json = await file.text();
+    setText(json);
+    read(json);
+  };
+
+  const apply = () => {
+    onApply(Object.fromEntries(result.findings.map(({ field, value }) => [field, value])));
+    setOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) {
+          setText("");
+          setResult(undefined);
+          setError(undefined);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <FileJson />
+          Import FHIR
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import from a FHIR Bundle</DialogTitle>
+          <DialogDescription>
+            Upload or paste a FHIR R4 Bundle with the patient's Patient, Observation and Condition resources.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Input
+            type="file"
+            accept=".json,application/fhir+json,application/json"
+            onChange={(event) => loadFile(event.target.files?.[0])}
+          />
+          <div className="space-y-1">
+            <Label htmlFor="fhirBundle">Bundle JSON</Label>
+            <Textarea
+              id="fhirBundle"
+              className="h-32 font-mono text-xs"
+              value={text}
+              onChange={(event) => setText(event.target.value)}
+            />
+          </div>
+          <Button type="button" variant="outline" size="sm" disabled={!text.trim()} onClick={() => read(text)}>
+            Read bundle
+          </Button>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertTitle>{error.message}</AlertTitle>
+              {error.issues.length > 0 && (
+                <AlertDescription>
+                  <ul className="list-disc list-inside text-xs">
+                    {error.issues.slice(0, 5).map((issue) => (
+                      <li key={issue}>{issue}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              )}
+            </Alert>
+          )}
+
+          {result && (
+            <div className="space-y-2">
+              {result.findings.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The bundle has no values this form uses.</p>
+              ) : (
+                <ul className="text-sm space-y-1">
+                  {result.findings.map(({ field, value, source }) => (
+                    <li key={field} className="flex justify-between gap-4">
+                      <span>
+                        <span className="font-medium">{FORM_FIELD_LABELS[field]}:</span> {displayValue(field, value, units)}
+                      </span>
+                      <span className="text-xs text-muted-foreground text-right">{source}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {result.warnings.map((warning) => (
+                <p key={warning} className="text-xs text-warning">
+                  {warning}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="medical" disabled={!result?.findings.length} onClick={apply}>
+            Fill the form
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { AlertTriangle, BookOpen } from "lucide-react";
+
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import {
+  assessAgainstGuidelines,
+  compareWithModel,
+  type GlucoseContext,
+  type GuidelineAgreement,
+} from "@/lib/guideline-rules";
+import type { FormData } from "@/lib/prediction-schema";
+import { formatMeasureValue, REFERENCE_BAND_LABELS, type ReferenceBand } from "@/lib/reference-ranges";
+import type { RiskTier } from "@/lib/risk-tier";
+import { cn } from "@/lib/utils";
+
+const BAND_BADGE_CLASSES: Record<ReferenceBand, string> = {
+  normal: "border-success text-success",
+  "pre-diabetes": "border-warning text-warning",
+  diabetes: "border-destructive text-destructive",
+};
+
+const AGREEMENT_TEXT: Record<GuidelineAgreement, string> = {
+  agree: "The guideline classification agrees with the model.",
+  partial: "The guideline classification and the model differ on pre-diabetes, but agree there is no diabetes.",
+  disagree: "The guideline classification disagrees with the model. Review the lab values and consider repeat testing.",
+  "model-borderline": "The model result is borderline; the guideline classification may help decide on follow-up.",
+};
+
+interface GuidelineComparisonProps {
+  input: FormData;
+  tier: RiskTier;
+}
+
+/** Rule-based ADA classification of the entered labs, shown beside the model result. */
+export const GuidelineComparison = ({ input, tier }: GuidelineComparisonProps) => {
+  const [glucoseContext, setGlucoseContext] = useState<GlucoseContext>("after-meal");
+  const [units] = useUnitPreferences();
+  const assessment = assessAgainstGuidelines(input, glucoseContext);
+  const agreement = compareWithModel(assessment.band, tier);
+
+  return (
+    <div className="mt-4 rounded-lg border border-border p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <BookOpen className="h-4 w-4 text-primary" />
+          <p className="font-semibold text-sm">Guideline thresholds (ADA)</p>
+        </div>
+        <Badge variant="outline" className={BAND_BADGE_CLASSES[assessment.band]}>
+          {REFERENCE_BAND_LABELS[assessment.band]}
+        </Badge>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Label htmlFor="glucoseContext" className="text-xs text-muted-foreground">
+          Glucose sample
+        </Label>
+        <Select value={glucoseContext} onValueChange={(value) => setGlucoseContext(value as GlucoseContext)}>
+          <SelectTrigger id="glucoseContext" className="h-8 w-48 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="after-meal">After meal / random</SelectItem>
+            <SelectItem value="fasting">Fasting</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <ul className="text-sm space-y-1">
+        {assessment.findings.map((finding) => (
+          <li key={finding.measure} className="flex justify-between gap-2">
+            <span className="text-muted-foreground">
+              {finding.label}: {formatMeasureValue(finding.measure, finding.value, units)}
+            </span>
+            <span className="font-medium">{REFERENCE_BAND_LABELS[finding.band]}</span>
+          </li>
+        ))}
+      </ul>
+
+      <p
+        className={cn(
+          "text-sm flex items-start gap-2",
+          agreement === "disagree" ? "text-destructive font-medium" : "text-muted-foreground",
+        )}
+      >
+        {agreement === "disagree" && <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />}
+        {AGREEMENT_TEXT[agreement]}
+      </p>
+    </div>
+  );
+};
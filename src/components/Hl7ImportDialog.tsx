@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { FlaskConical } from "lucide-react";
+
+import { Alert, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import { Hl7ParseError, readOruMessage, type OruImportResult } from "@/lib/hl7-oru";
+import { FORM_FIELD_LABELS, type FormData } from "@/lib/prediction-schema";
+import { formatLabValue } from "@/lib/units";
+
+interface Hl7ImportDialogProps {
+  onApply: (values: Partial<FormData>) => void;
+}
+
+/** Reads HbA1c and glucose from an HL7 v2 ORU^R01 lab message and fills the form once the user confirms. */
+export const Hl7ImportDialog = ({ onApply }: Hl7ImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const [result, setResult] = useState<OruImportResult>();
+  const [error, setError] = useState<string>();
+  const [units] = useUnitPreferences();
+
+  const read = (message: string) => {
+    setResult(undefined);
+    setError(undefined);
+    try {
+      setResult(readOruMessage(message));
+    } catch (caught) {
+      if (caught instanceof Hl7ParseError) setError(caught.message);
+      else throw caught;
+    }
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    const message = await file.text();
+    setText(message);
+    read(message);
+  };
+
+  const apply = () => {
+    onApply(Object.fromEntries(result.findings.map(({ field, value }) => [field, value])));
+    setOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) {
+          setText("");
+          setResult(undefined);
+          setError(undefined);
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <FlaskConical />
+          Import lab result
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import an HL7 lab message</DialogTitle>
+          <DialogDescription>
+            Upload or paste an HL7 v2 ORU^R01 message. HbA1c and blood glucose results are read from its OBX segments.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Input type="file" accept=".hl7,.txt,text/plain" onChange={(event) => loadFile(event.target.files?.[0])} />
+          <div className="space-y-1">
+            <Label htmlFor="hl7Message">Message</Label>
+            <Textarea
+              id="hl7Message"
+              className="h-32 font-mono text-xs"
+              placeholder={"MSH|^~\\&|LAB|…|ORU^R01|…\nPID|…\nOBR|…\nOBX|…"}
+              value={text}
+              onChange={(event) => setText(event.target.value)}
+            />
+          </div>
+          <Button type="button" variant="outline" size="sm" disabled={!text.trim()} onClick={() => read(text)}>
+            Read message
+          </Button>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertTitle>{error}</AlertTitle>
+            </Alert>
+          )}
+
+          {result && (
+            <div className="space-y-2">
+              {result.patient && (
+                <p className="text-sm">
+                  Results for <span className="font-medium">{result.patient}</span>. Check this is the right patient.
+                </p>
+              )}
+              {result.findings.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The message has no HbA1c or glucose results.</p>
+              ) : (
+                <ul className="text-sm space-y-1">
+                  {result.findings.map(({ field, value, reported, source }) => (
+                    <li key={field} className="flex justify-between gap-4">
+                      <span>
+                        <span className="font-medium">{FORM_FIELD_LABELS[field]}:</span>{" "}
+                        {formatLabValue(field, value, units[field])}
+                        {reported !== formatLabValue(field, value, units[field]) && (
+                          <span className="text-muted-foreground"> (reported as {reported})</span>
+                        )}
+                      </span>
+                      <span className="text-xs text-muted-foreground text-right">{source}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {result.warnings.map((warning) => (
+                <p key={warning} className="text-xs text-warning">
+                  {warning}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="medical" disabled={!result?.findings.length} onClick={apply}>
+            Fill the form
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
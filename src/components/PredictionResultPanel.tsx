@@ -0,0 +1,306 @@
+import {
+  ActivityIcon,
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle2,
+  Clock,
+  FileText,
+  HelpCircle,
+  PauseCircle,
+  RotateCcw,
+  ServerCrash,
+  WifiOff,
+  X,
+} from "lucide-react";
+
+import { useState } from "react";
+import { Link } from "react-router-dom";
+
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { CounterfactualSuggestions } from "@/components/CounterfactualSuggestions";
+import { ExportMenu } from "@/components/ExportMenu";
+import { FeatureContributionChart } from "@/components/FeatureContributionChart";
+import { GuidelineComparison } from "@/components/GuidelineComparison";
+import { RiskGauge } from "@/components/RiskGauge";
+import { SensitivityHeatmap } from "@/components/SensitivityHeatmap";
+import { WhatIfSimulator } from "@/components/WhatIfSimulator";
+import { getPredictionErrorTitle, type PredictionErrorState, type PredictionState } from "@/hooks/use-prediction";
+import { predictOffline } from "@/lib/fallback-model";
+import type { Prediction } from "@/lib/prediction-client";
+import { toExportedPrediction } from "@/lib/prediction-export";
+import { FORM_FIELD_LABELS, type FormData } from "@/lib/prediction-schema";
+import {
+  classifyRiskTier,
+  labelProbabilityConflict,
+  RISK_TIER_BANDS,
+  RISK_TIER_INFO,
+  type RiskTier,
+} from "@/lib/risk-tier";
+import { cn } from "@/lib/utils";
+
+interface PredictionResultPanelProps {
+  state: PredictionState;
+  onRetry: () => void;
+  onCancel: () => void;
+}
+
+const ErrorDetails = ({ state }: { state: PredictionErrorState }) => {
+  switch (state.status) {
+    case "network-error":
+      return (
+        <p className="text-sm opacity-90">
+          The prediction service could not be reached. Check your connection or that the server is running.
+        </p>
+      );
+    case "timeout":
+      return (
+        <p className="text-sm opacity-90">
+          No answer arrived within {Math.round(state.timeoutMs / 1000)} seconds, even after retrying.
+        </p>
+      );
+    case "circuit-open":
+      return (
+        <p className="text-sm opacity-90">
+          The service failed repeatedly, so requests are paused to let it recover. They resume at{" "}
+          {new Date(state.retryAt).toLocaleTimeString()}.
+        </p>
+      );
+    case "validation-error":
+      return state.issues.length > 0 ? (
+        <ul className="list-disc list-inside text-sm opacity-90 space-y-1">
+          {state.issues.map((issue, index) => (
+            <li key={index}>
+              {issue.field && <strong>{FORM_FIELD_LABELS[issue.field]}: </strong>}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm opacity-90">Please review the form values and try again.</p>
+      );
+    case "server-error":
+      return <p className="text-sm opacity-90">The server returned status {state.httpStatus}. Please try again later.</p>;
+    case "unexpected-response":
+      return (
+        <p className="text-sm opacity-90">
+          The server answered, but not in a format this app understands, so no result is shown.
+        </p>
+      );
+  }
+};
+
+const formatPrediction = (prediction: Prediction) =>
+  `${prediction.label === "diabetic" ? "Diabetes" : "No diabetes"}` +
+  (prediction.probability !== undefined ? ` (${(prediction.probability * 100).toFixed(1)}%)` : "");
+
+const OfflineComparison = ({ input, serverPrediction }: { input: FormData; serverPrediction: Prediction }) => {
+  const [enabled, setEnabled] = useState(false);
+  const offline = enabled ? predictOffline(input) : null;
+
+  return (
+    <div className="space-y-2 pt-3 border-t border-current/20">
+      <div className="flex items-center gap-2">
+        <Switch id="compareOffline" checked={enabled} onCheckedChange={setEnabled} />
+        <Label htmlFor="compareOffline" className="text-sm">
+          Compare with offline model
+        </Label>
+      </div>
+      {offline && (
+        <div className="text-sm space-y-1">
+          <p>Server: {formatPrediction(serverPrediction)}</p>
+          <p>Offline estimate: {formatPrediction(offline)}</p>
+          <p className="font-medium">
+            {offline.label === serverPrediction.label
+              ? "Both models agree."
+              : "The models disagree; rely on the server prediction and clinical judgement."}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// The probabilities are not calibrated, so they are described only against the tier bands.
+const [ELEVATED, BORDERLINE, HIGH] = [RISK_TIER_BANDS.preDiabetic, ...RISK_TIER_BANDS.indeterminate].map((band) =>
+  Math.round(band * 100),
+);
+
+const ProbabilityDetails = ({ probability }: { probability: number }) => (
+  <div className="space-y-2 text-foreground">
+    <p className="text-sm">
+      Estimated probability of diabetes: <strong>{Math.round(probability * 100)}%</strong>
+    </p>
+    <RiskGauge probability={probability} />
+    <p className="text-xs text-muted-foreground">
+      Below {ELEVATED}% is reported as low risk unless HbA1c or glucose is raised, and {ELEVATED}–{BORDERLINE}% as
+      elevated risk. {BORDERLINE}–{HIGH}% is borderline and needs further testing; {HIGH}% or more is reported as high
+      risk.
+    </p>
+  </div>
+);
+
+const TIER_STYLES: Record<RiskTier, { alert: string; icon: typeof AlertCircle; iconClass: string }> = {
+  normal: { alert: "border-success bg-success/10", icon: CheckCircle2, iconClass: "text-success" },
+  "pre-diabetic": { alert: "border-warning bg-warning/10", icon: AlertTriangle, iconClass: "text-warning" },
+  indeterminate: { alert: "border-primary bg-primary/10", icon: HelpCircle, iconClass: "text-primary" },
+  diabetic: {
+    alert: "border-destructive bg-destructive/10 text-destructive",
+    icon: AlertCircle,
+    iconClass: "text-destructive",
+  },
+};
+
+const ERROR_ICONS = {
+  "network-error": WifiOff,
+  timeout: Clock,
+  "circuit-open": PauseCircle,
+  "validation-error": AlertTriangle,
+  "server-error": ServerCrash,
+  "unexpected-response": AlertTriangle,
+} as const;
+
+export const PredictionResultPanel = ({ state, onRetry, onCancel }: PredictionResultPanelProps) => {
+  if (state.status === "idle") {
+    return null;
+  }
+
+  if (state.status === "loading") {
+    return (
+      <div className="mt-8 animate-fade-in-up">
+        <Alert>
+          <ActivityIcon className="h-5 w-5 animate-spin text-primary" />
+          <AlertDescription className="ml-2">
+            <div className="space-y-2">
+              <p className="font-semibold text-base">
+                Analyzing{state.attempt > 1 ? ` (attempt ${state.attempt})` : ""}...
+              </p>
+              {state.lastError && (
+                <p className="text-sm text-muted-foreground">
+                  {state.lastError}. Retrying
+                  {state.retryDelayMs !== undefined && ` in ${(state.retryDelayMs / 1000).toFixed(1)} s`}.
+                </p>
+              )}
+              <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+                <X />
+                Cancel
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (state.status !== "success") {
+    const Icon = ERROR_ICONS[state.status];
+
+    return (
+      <div className="mt-8 animate-fade-in-up">
+        <Alert className="border-warning bg-warning/10">
+          <Icon className="h-5 w-5 text-warning" />
+          <AlertDescription className="ml-2">
+            <div className="space-y-2">
+              <p className="font-semibold text-base">{getPredictionErrorTitle(state)}</p>
+              <ErrorDetails state={state} />
+              <p className="text-sm">No risk assessment was produced.</p>
+              {state.status !== "validation-error" && (
+                <Button type="button" variant="outline" size="sm" onClick={onRetry}>
+                  <RotateCcw />
+                  Retry
+                </Button>
+              )}
+            </div>
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const { prediction, input, profileId, bodyMeasurements, completedAt, fallbackReason } = state;
+  const isOffline = prediction.source === "offline";
+  const tier = classifyRiskTier(prediction, input);
+  const tierInfo = RISK_TIER_INFO[tier];
+  const conflict = labelProbabilityConflict(prediction);
+  const { alert: alertClass, icon: TierIcon, iconClass } = TIER_STYLES[tier];
+  const exported = {
+    ...toExportedPrediction(input, prediction, completedAt, bodyMeasurements),
+    profileId: profileId ?? undefined,
+  };
+
+  return (
+    <div className="mt-8 animate-fade-in-up">
+      <Alert className={alertClass}>
+        <TierIcon className={cn("h-5 w-5", iconClass)} />
+        <AlertDescription className="ml-2">
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="font-semibold text-base">{tierInfo.title}</p>
+              {isOffline && (
+                <Badge variant="outline" className="border-warning text-warning">
+                  <WifiOff className="mr-1 h-3 w-3" />
+                  Offline estimate
+                </Badge>
+              )}
+              <div className="ml-auto flex items-center gap-2">
+                <Button asChild variant="outline" size="sm">
+                  <Link
+                    to="/report"
+                    state={{ report: { input, profileId, bodyMeasurements, prediction, completedAt } }}
+                  >
+                    <FileText />
+                    Patient report
+                  </Link>
+                </Button>
+                <ExportMenu predictions={[exported]} fileName="prediction" />
+              </div>
+            </div>
+            <p className="text-sm opacity-90">{tierInfo.summary}</p>
+            {conflict && (
+              <p className="text-sm font-medium">{conflict} The result is shown as borderline until it is confirmed.</p>
+            )}
+            {prediction.probability !== undefined ? (
+              <ProbabilityDetails probability={prediction.probability} />
+            ) : (
+              <p className="text-sm opacity-90">The prediction service did not report a probability for this result.</p>
+            )}
+            {isOffline && (
+              <div className="text-sm space-y-2">
+                <p className="opacity-90">
+                  {fallbackReason ? `${getPredictionErrorTitle(fallbackReason)}. ` : ""}
+                  This estimate comes from a simplified model running in your browser and is less reliable than the
+                  server prediction.
+                </p>
+                <Button type="button" variant="outline" size="sm" onClick={onRetry}>
+                  <RotateCcw />
+                  Retry with server
+                </Button>
+              </div>
+            )}
+            <div className="pt-3 border-t border-current/20">
+              <p className="text-sm font-medium mb-1">Recommended next steps</p>
+              <ul className="list-disc list-inside text-sm opacity-90 space-y-1">
+                {tierInfo.guidance.map((item) => (
+                  <li key={item}>{item}</li>
+                ))}
+              </ul>
+            </div>
+            {!isOffline && <OfflineComparison input={input} serverPrediction={prediction} />}
+            <p className="text-sm mt-3 pt-3 border-t border-current/20">
+              This is a model-generated medical risk estimation and not a diagnosis.
+              Please consult with a healthcare professional for proper medical advice.
+            </p>
+          </div>
+        </AlertDescription>
+      </Alert>
+      {prediction.label === "diabetic" && <CounterfactualSuggestions input={input} baseline={prediction} />}
+      <GuidelineComparison input={input} tier={tier} />
+      <FeatureContributionChart prediction={prediction} input={input} />
+      <WhatIfSimulator key={JSON.stringify(input)} input={input} baseline={prediction} />
+      <SensitivityHeatmap input={input} />
+    </div>
+  );
+};
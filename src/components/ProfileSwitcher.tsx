@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import { Trash2, UserPlus, UserRound } from "lucide-react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { usePatientProfiles } from "@/hooks/use-patient-profiles";
+import { ageFromDateOfBirth, type NewPatientProfile, type ProfileSex } from "@/lib/patient-profiles";
+import { formSchema } from "@/lib/prediction-schema";
+
+const ANONYMOUS = "anonymous";
+
+const AGE_RANGE = { min: formSchema.shape.age.minValue, max: formSchema.shape.age.maxValue };
+
+const profileSchema = z.object({
+  name: z.string().trim().min(1, "Enter a name or pseudonymous ID"),
+  dateOfBirth: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Enter a date of birth")
+    .refine((value) => new Date(value) <= new Date(), "Date of birth cannot be in the future")
+    // Predictions take the age from the profile, so it must be one the form accepts.
+    .refine(
+      (value) => formSchema.shape.age.safeParse(ageFromDateOfBirth(value)).success,
+      `The patient must be ${AGE_RANGE.min}–${AGE_RANGE.max} years old`,
+    ),
+  sex: z.enum(["male", "female", "other"], { required_error: "Please select sex" }),
+});
+
+// The app tsconfig is not strict, so `z.infer` would mark every field optional.
+type ProfileFormData = NewPatientProfile;
+
+const NewProfileDialog = () => {
+  const [open, setOpen] = useState(false);
+  const { create } = usePatientProfiles();
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    reset,
+    formState: { errors },
+  } = useForm<ProfileFormData>({ resolver: zodResolver(profileSchema) });
+
+  const onSubmit = (data: ProfileFormData) =>
+    create.mutate(data, {
+      onSuccess: () => {
+        reset();
+        setOpen(false);
+      },
+    });
+
+  // A failed save from an earlier attempt shouldn't greet the next one.
+  const openChange = (next: boolean) => {
+    if (next) create.reset();
+    setOpen(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="New patient profile">
+          <UserPlus />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New patient profile</DialogTitle>
+          <DialogDescription>Predictions made while this profile is active are saved to its history.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="profileName">Name or pseudonymous ID</Label>
+            <Input id="profileName" {...register("name")} />
+            {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profileDateOfBirth">Date of birth</Label>
+            <Input id="profileDateOfBirth" type="date" {...register("dateOfBirth")} />
+            {errors.dateOfBirth && <p className="text-sm text-destructive">{errors.dateOfBirth.message}</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="profileSex">Sex</Label>
+            <Select value={watch("sex") ?? ""} onValueChange={(value) => setValue("sex", value as ProfileSex)}>
+              <SelectTrigger id="profileSex">
+                <SelectValue placeholder="Select sex" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="male">Male</SelectItem>
+                <SelectItem value="female">Female</SelectItem>
+                <SelectItem value="other">Other</SelectItem>
+              </SelectContent>
+            </Select>
+            {errors.sex && <p className="text-sm text-destructive">{errors.sex.message}</p>}
+          </div>
+          {create.error && (
+            <p role="alert" className="text-sm text-destructive">
+              Could not save the profile: {create.error.message}
+            </p>
+          )}
+          <DialogFooter>
+            <Button type="submit" variant="medical" disabled={create.isPending}>
+              Create profile
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+/** Header control for choosing which patient the form and history belong to. */
+export const ProfileSwitcher = () => {
+  const { profiles, activeProfile, setActiveProfileId, remove } = usePatientProfiles();
+
+  return (
+    <div className="flex items-center gap-1">
+      <UserRound className="h-4 w-4 text-muted-foreground" />
+      <Select
+        value={activeProfile?.id ?? ANONYMOUS}
+        onValueChange={(value) => setActiveProfileId(value === ANONYMOUS ? null : value)}
+      >
+        <SelectTrigger className="h-9 w-44" aria-label="Patient profile">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANONYMOUS}>Anonymous</SelectItem>
+          {profiles.data?.map((profile) => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {profile.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <NewProfileDialog />
+      {activeProfile && (
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="ghost" size="icon" aria-label="Delete patient profile">
+              <Trash2 />
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {activeProfile.name}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                The profile and all of its saved predictions are permanently removed from this browser.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => remove.mutate(activeProfile.id)}>Delete</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import { Progress } from "@/components/ui/progress";
+import { probabilityTier, RISK_TIER_BANDS, RISK_TIER_LABELS, type RiskTier } from "@/lib/risk-tier";
+import { cn } from "@/lib/utils";
+
+interface RiskGaugeProps {
+  /** Probability of diabetes in [0, 1]. */
+  probability: number;
+  className?: string;
+}
+
+const BAR_CLASSES: Record<RiskTier, string> = {
+  normal: "[&>div]:bg-success",
+  "pre-diabetic": "[&>div]:bg-warning",
+  indeterminate: "[&>div]:bg-primary",
+  diabetic: "[&>div]:bg-destructive",
+};
+
+const [indeterminateLow, indeterminateHigh] = RISK_TIER_BANDS.indeterminate;
+const BOUNDARIES = [RISK_TIER_BANDS.preDiabetic, indeterminateLow, indeterminateHigh];
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/** Horizontal gauge of the predicted diabetes probability, coloured by the risk tier band it falls in. */
+export const RiskGauge = ({ probability, className }: RiskGaugeProps) => {
+  const percent = Math.round(probability * 100);
+
+  return (
+    <div className={cn("space-y-1", className)}>
+      <div className="relative">
+        <Progress
+          value={percent}
+          aria-label={`Estimated probability of diabetes: ${percent}%`}
+          className={cn("h-3 bg-muted", BAR_CLASSES[probabilityTier(probability)])}
+        />
+        {BOUNDARIES.map((boundary) => (
+          <div
+            key={boundary}
+            className="absolute -top-1 h-5 w-0.5 bg-foreground/70"
+            style={{ left: `${boundary * 100}%` }}
+            title={`${RISK_TIER_LABELS[probabilityTier(boundary)]} from ${formatPercent(boundary)}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground">
+        <span>0%</span>
+        <span>
+          {RISK_TIER_LABELS.indeterminate} {formatPercent(indeterminateLow)}–{formatPercent(indeterminateHigh)}
+        </span>
+        <span>100%</span>
+      </div>
+    </div>
+  );
+};
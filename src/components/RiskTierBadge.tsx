@@ -0,0 +1,16 @@
+import { Badge } from "@/components/ui/badge";
+import { RISK_TIER_LABELS, type RiskTier } from "@/lib/risk-tier";
+import { cn } from "@/lib/utils";
+
+const TIER_BADGE_CLASSES: Record<RiskTier, string> = {
+  normal: "border-success text-success",
+  "pre-diabetic": "border-warning text-warning",
+  indeterminate: "border-primary text-primary",
+  diabetic: "border-destructive text-destructive",
+};
+
+export const RiskTierBadge = ({ tier, className }: { tier: RiskTier; className?: string }) => (
+  <Badge variant="outline" className={cn(TIER_BADGE_CLASSES[tier], className)}>
+    {RISK_TIER_LABELS[tier]}
+  </Badge>
+);
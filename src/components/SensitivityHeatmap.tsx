@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Grid3X3, WifiOff } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import { predictMany } from "@/lib/prediction-batch";
+import { FORM_FIELD_LABELS, formSchema, type FormData } from "@/lib/prediction-schema";
+import { riskScore } from "@/lib/risk-tier";
+import { formatLabNumber, formatLabValue, type LabUnits } from "@/lib/units";
+import { cn } from "@/lib/utils";
+
+type SweepFeature = "age" | "bmi" | "hba1c" | "bloodGlucose";
+
+const GRID_SIZE = 12;
+
+/** Sweep ranges are the form's own validation limits. */
+const SWEEP_FEATURES: Record<SweepFeature, { min: number; max: number; precision: number }> = {
+  age: { min: formSchema.shape.age.minValue, max: formSchema.shape.age.maxValue, precision: 0 },
+  bmi: { min: formSchema.shape.bmi.minValue, max: formSchema.shape.bmi.maxValue, precision: 1 },
+  hba1c: { min: formSchema.shape.hba1c.minValue, max: formSchema.shape.hba1c.maxValue, precision: 1 },
+  bloodGlucose: {
+    min: formSchema.shape.bloodGlucose.minValue,
+    max: formSchema.shape.bloodGlucose.maxValue,
+    precision: 0,
+  },
+};
+
+const sweepValues = (feature: SweepFeature) => {
+  const { min, max, precision } = SWEEP_FEATURES[feature];
+  return Array.from({ length: GRID_SIZE }, (_, i) =>
+    Number((min + ((max - min) * i) / (GRID_SIZE - 1)).toFixed(precision)),
+  );
+};
+
+/** Where `value` falls along the axis, as a percentage of the grid's width or height. */
+const axisPosition = (feature: SweepFeature, value: number) => {
+  const { min, max } = SWEEP_FEATURES[feature];
+  const clamped = Math.min(max, Math.max(min, value));
+  return (((clamped - min) / (max - min)) * (GRID_SIZE - 1) + 0.5) * (100 / GRID_SIZE);
+};
+
+/** A sweep value (canonical units) as shown on the axis, with labs in the user's unit. */
+const axisValue = (feature: SweepFeature, value: number, units: LabUnits) =>
+  feature === "hba1c" || feature === "bloodGlucose" ? formatLabNumber(feature, value, units[feature]) : String(value);
+
+const axisLabel = (feature: SweepFeature, units: LabUnits) =>
+  feature === "hba1c" || feature === "bloodGlucose"
+    ? `${FORM_FIELD_LABELS[feature]} (${units[feature]})`
+    : FORM_FIELD_LABELS[feature];
+
+/** One coordinate of a cell for its tooltip, e.g. `HbA1c 48 mmol/mol`. */
+const cellValue = (feature: SweepFeature, value: number, units: LabUnits) =>
+  feature === "hba1c" || feature === "bloodGlucose"
+    ? `${FORM_FIELD_LABELS[feature]} ${formatLabValue(feature, value, units[feature])}`
+    : `${FORM_FIELD_LABELS[feature]} ${value}`;
+
+const riskColor = (risk: number) =>
+  `color-mix(in hsl, hsl(var(--destructive)) ${Math.round(risk * 100)}%, hsl(var(--success)))`;
+
+/**
+ * Risk over a grid of two inputs with everything else held at the patient's
+ * values. The grid is requested as one batch, so repeated sweeps are served
+ * from the prediction cache.
+ */
+export const SensitivityHeatmap = ({ input }: { input: FormData }) => {
+  const [xFeature, setXFeature] = useState<SweepFeature>("bmi");
+  const [yFeature, setYFeature] = useState<SweepFeature>("hba1c");
+  const [requested, setRequested] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [units] = useUnitPreferences();
+
+  const xValues = sweepValues(xFeature);
+  const yValues = sweepValues(yFeature).reverse();
+
+  const { data: grid, error, isFetching } = useQuery({
+    queryKey: ["sensitivity", input, xFeature, yFeature],
+    queryFn: async ({ signal }) => {
+      setProgress(0);
+      const cells = yValues.flatMap((y) => xValues.map((x) => ({ ...input, [xFeature]: x, [yFeature]: y })));
+      const outcomes = await predictMany(cells, {
+        signal,
+        onProgress: (completed, total) => setProgress(Math.round((completed / total) * 100)),
+      });
+      return outcomes.map((outcome) =>
+        outcome.ok ? { risk: riskScore(outcome.prediction), offline: outcome.prediction.source === "offline" } : null,
+      );
+    },
+    enabled: requested && xFeature !== yFeature,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  // Cells the server couldn't answer were estimated by the in-browser model.
+  const offlineCells = grid?.filter((cell) => cell?.offline).length ?? 0;
+
+  const featureSelect = (id: string, value: SweepFeature, onChange: (feature: SweepFeature) => void) => (
+    <Select value={value} onValueChange={(feature) => onChange(feature as SweepFeature)}>
+      <SelectTrigger id={id} className="h-8 w-40 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(SWEEP_FEATURES) as SweepFeature[]).map((feature) => (
+          <SelectItem key={feature} value={feature}>
+            {FORM_FIELD_LABELS[feature]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="mt-4 rounded-lg border border-border p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Grid3X3 className="h-4 w-4 text-primary" />
+        <p className="font-semibold text-sm">Sensitivity heatmap</p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Label htmlFor="heatmapX" className="text-xs text-muted-foreground">
+            Horizontal
+          </Label>
+          {featureSelect("heatmapX", xFeature, setXFeature)}
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="heatmapY" className="text-xs text-muted-foreground">
+            Vertical
+          </Label>
+          {featureSelect("heatmapY", yFeature, setYFeature)}
+        </div>
+        {!requested && (
+          <Button type="button" variant="outline" size="sm" onClick={() => setRequested(true)}>
+            Generate
+          </Button>
+        )}
+      </div>
+
+      {xFeature === yFeature && <p className="text-sm text-muted-foreground">Choose two different inputs.</p>}
+      {isFetching && <Progress value={progress} className="h-2" />}
+      {error && <p className="text-sm text-destructive">Could not build the heatmap: {error.message}</p>}
+
+      {offlineCells > 0 && (
+        <p className="flex items-center gap-2 text-xs text-warning">
+          <WifiOff className="h-3 w-3 shrink-0" />
+          {offlineCells === grid.length
+            ? "The prediction service was unreachable; every cell is an offline estimate from the in-browser model."
+            : `${offlineCells} of ${grid.length} cells (dashed) are offline estimates from the in-browser model.`}
+        </p>
+      )}
+
+      {grid && (
+        <div className="flex gap-2">
+          <div className="flex flex-col justify-between text-[10px] text-muted-foreground py-1">
+            <span>{axisValue(yFeature, yValues[0], units)}</span>
+            <span className="-rotate-90 whitespace-nowrap">{axisLabel(yFeature, units)}</span>
+            <span>{axisValue(yFeature, yValues[yValues.length - 1], units)}</span>
+          </div>
+          <div className="flex-1 space-y-1">
+            <div className="relative">
+              <div className="grid gap-px" style={{ gridTemplateColumns: `repeat(${GRID_SIZE}, minmax(0, 1fr))` }}>
+                {grid.map((cell, index) => {
+                  const x = xValues[index % GRID_SIZE];
+                  const y = yValues[Math.floor(index / GRID_SIZE)];
+                  return (
+                    <div
+                      key={index}
+                      className={cn(
+                        "aspect-square rounded-sm",
+                        cell?.offline && "border border-dashed border-foreground/50",
+                      )}
+                      style={{ background: cell === null ? "hsl(var(--muted))" : riskColor(cell.risk) }}
+                      title={`${cellValue(xFeature, x, units)}, ${cellValue(yFeature, y, units)}: ${
+                        cell === null
+                          ? "unavailable"
+                          : `${Math.round(cell.risk * 100)}%${cell.offline ? " (offline estimate)" : ""}`
+                      }`}
+                    />
+                  );
+                })}
+              </div>
+              <div
+                className="absolute h-3 w-3 -translate-x-1/2 translate-y-1/2 rounded-full border-2 border-background bg-foreground"
+                style={{
+                  left: `${axisPosition(xFeature, input[xFeature])}%`,
+                  bottom: `${axisPosition(yFeature, input[yFeature])}%`,
+                }}
+                title="Current patient"
+              />
+            </div>
+            <div className="flex justify-between text-[10px] text-muted-foreground">
+              <span>{axisValue(xFeature, xValues[0], units)}</span>
+              <span>{axisLabel(xFeature, units)}</span>
+              <span>{axisValue(xFeature, xValues[xValues.length - 1], units)}</span>
+            </div>
+          </div>
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Green is low and red is high predicted risk; the dot marks the current patient. All other inputs are held at
+        the submitted values.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import { Link } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+
+interface SmartLaunchStatusProps {
+  /** Shown with a spinner while the launch is in progress. */
+  message: string;
+  error?: string;
+}
+
+/** Full-page progress or failure notice for the SMART launch and callback routes. */
+export const SmartLaunchStatus = ({ message, error }: SmartLaunchStatusProps) => (
+  <div className="min-h-screen flex items-center justify-center px-4 bg-gradient-to-br from-background via-accent/30">
+    <div className="medical-card w-full max-w-md p-8">
+      {error ? (
+        <div className="space-y-4">
+          <Alert variant="destructive">
+            <AlertTitle>Could not connect to the EHR</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+          <Button asChild variant="outline">
+            <Link to="/">Enter values manually</Link>
+          </Button>
+        </div>
+      ) : (
+        <p className="flex items-center justify-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {message}
+        </p>
+      )}
+    </div>
+  </div>
+);
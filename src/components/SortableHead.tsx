@@ -0,0 +1,30 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+
+import { TableHead } from "@/components/ui/table";
+
+export type SortDirection = "asc" | "desc";
+
+export interface SortState<K extends string> {
+  key: K;
+  direction: SortDirection;
+}
+
+interface SortableHeadProps<K extends string> {
+  sortKey: K;
+  sort: SortState<K>;
+  onSort: (key: K) => void;
+  children: React.ReactNode;
+}
+
+/** A table header that sorts by `sortKey` when clicked and shows the current direction. */
+export const SortableHead = <K extends string>({ sortKey, sort, onSort, children }: SortableHeadProps<K>) => {
+  const Icon = sort.key !== sortKey ? ArrowUpDown : sort.direction === "asc" ? ArrowUp : ArrowDown;
+  return (
+    <TableHead>
+      <button type="button" className="inline-flex items-center gap-1" onClick={() => onSort(sortKey)}>
+        {children}
+        <Icon className="h-3 w-3" />
+      </button>
+    </TableHead>
+  );
+};
@@ -0,0 +1,176 @@
+import { CartesianGrid, Line, LineChart, ReferenceArea, ReferenceLine, XAxis, YAxis } from "recharts";
+
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import type { PredictionRecord } from "@/lib/prediction-history";
+import { labInputRange } from "@/lib/prediction-schema";
+import { BMI_THRESHOLDS, REFERENCE_THRESHOLDS } from "@/lib/reference-ranges";
+import { RISK_TIER_BANDS, RISK_TIER_LABELS } from "@/lib/risk-tier";
+import { formatLabNumber, fromCanonicalLabValue, type LabField, type LabUnits } from "@/lib/units";
+
+interface Band {
+  from: number;
+  to: number;
+  color: string;
+}
+
+interface TrendPoint {
+  time: number;
+  hba1c: number;
+  bloodGlucose: number;
+  bmi: number;
+  risk: number | null;
+}
+
+interface TrendMetric {
+  key: Exclude<keyof TrendPoint, "time">;
+  title: string;
+  domain: [number, number];
+  bands: Band[];
+}
+
+const SUCCESS = "hsl(var(--success))";
+const WARNING = "hsl(var(--warning))";
+const DESTRUCTIVE = "hsl(var(--destructive))";
+
+const [indeterminateLow, indeterminateHigh] = RISK_TIER_BANDS.indeterminate;
+
+/**
+ * A lab's chart in the unit the user prefers: the form's input range as the
+ * axis and the reference thresholds, converted, as the shaded zones.
+ */
+function labMetric<F extends LabField>(field: F, title: string, unit: LabUnits[F]): TrendMetric {
+  // Glucose uses the after-meal column, as the tiers do.
+  const { preDiabetes, diabetes } = REFERENCE_THRESHOLDS[field === "hba1c" ? "hba1c" : "afterMealGlucose"];
+  const convert = (value: number) => fromCanonicalLabValue(field, value, unit);
+  const { min, max } = labInputRange(field, unit);
+  return {
+    key: field,
+    title: `${title} (${unit})`,
+    domain: [min, max],
+    bands: [
+      { from: min, to: convert(preDiabetes), color: SUCCESS },
+      { from: convert(preDiabetes), to: convert(diabetes), color: WARNING },
+      { from: convert(diabetes), to: max, color: DESTRUCTIVE },
+    ],
+  };
+}
+
+/** Shaded zones follow the reference-ranges table. */
+const trendMetrics = (units: LabUnits): TrendMetric[] => [
+  labMetric("hba1c", "HbA1c", units.hba1c),
+  labMetric("bloodGlucose", "Blood glucose", units.bloodGlucose),
+  {
+    key: "bmi",
+    title: "BMI",
+    domain: [10, 60],
+    bands: [
+      { from: BMI_THRESHOLDS.underweight, to: BMI_THRESHOLDS.overweight, color: SUCCESS },
+      { from: BMI_THRESHOLDS.overweight, to: BMI_THRESHOLDS.obese, color: WARNING },
+      { from: BMI_THRESHOLDS.obese, to: 60, color: DESTRUCTIVE },
+    ],
+  },
+  {
+    key: "risk",
+    title: "Predicted risk (%)",
+    domain: [0, 100],
+    bands: [
+      { from: 0, to: RISK_TIER_BANDS.preDiabetic * 100, color: SUCCESS },
+      { from: RISK_TIER_BANDS.preDiabetic * 100, to: indeterminateLow * 100, color: WARNING },
+      { from: indeterminateHigh * 100, to: 100, color: DESTRUCTIVE },
+    ],
+  },
+];
+
+const chartConfig = {
+  hba1c: { label: "HbA1c", color: "hsl(var(--primary))" },
+  bloodGlucose: { label: "Glucose", color: "hsl(var(--primary))" },
+  bmi: { label: "BMI", color: "hsl(var(--primary))" },
+  risk: { label: "Risk", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatDay = (time: number) => new Date(time).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+/**
+ * Longitudinal charts of the labs, BMI and predicted risk across saved
+ * assessments, with reference zones shaded and a marker wherever the risk
+ * tier changed from the previous assessment.
+ */
+export const TrendCharts = ({ records }: { records: PredictionRecord[] }) => {
+  const [units] = useUnitPreferences();
+  const chronological = [...records].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  const points: TrendPoint[] = chronological.map((record) => ({
+    time: new Date(record.createdAt).getTime(),
+    hba1c: Number(formatLabNumber("hba1c", record.input.hba1c, units.hba1c)),
+    bloodGlucose: Number(formatLabNumber("bloodGlucose", record.input.bloodGlucose, units.bloodGlucose)),
+    bmi: record.input.bmi,
+    risk: record.probability !== undefined ? Math.round(record.probability * 100) : null,
+  }));
+  const tierChanges = chronological
+    .map((record, index) => ({ record, previous: chronological[index - 1] }))
+    .filter(({ record, previous }) => previous && previous.tier !== record.tier)
+    .map(({ record }) => ({ time: new Date(record.createdAt).getTime(), label: RISK_TIER_LABELS[record.tier] }));
+
+  if (points.length < 2) {
+    return <p className="text-muted-foreground">Trends appear once at least two assessments have been saved.</p>;
+  }
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      {trendMetrics(units).map((metric) => (
+        <div key={metric.key} className="space-y-2">
+          <p className="text-sm font-semibold text-foreground">{metric.title}</p>
+          <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+            <LineChart data={points} margin={{ left: 0, right: 16, top: 16 }}>
+              <CartesianGrid vertical={false} />
+              {metric.bands.map((band) => (
+                <ReferenceArea
+                  key={band.from}
+                  y1={band.from}
+                  y2={band.to}
+                  fill={band.color}
+                  fillOpacity={0.12}
+                  ifOverflow="hidden"
+                />
+              ))}
+              {tierChanges.map((change) => (
+                <ReferenceLine
+                  key={change.time}
+                  x={change.time}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeDasharray="3 3"
+                  label={{ value: change.label, position: "top", fontSize: 10 }}
+                />
+              ))}
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={formatDay}
+                tickLine={false}
+                axisLine={false}
+              />
+              <YAxis domain={metric.domain} width={36} tickLine={false} axisLine={false} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, [point]) => new Date(point?.payload.time).toLocaleString()}
+                  />
+                }
+              />
+              <Line
+                dataKey={metric.key}
+                type="monotone"
+                stroke={`var(--color-${metric.key})`}
+                strokeWidth={2}
+                connectNulls
+                dot
+              />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import { Ruler } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import { LAB_UNIT_OPTIONS, type LabUnits } from "@/lib/units";
+
+/** Header control for the units lab values are entered and shown in across the app. */
+export const UnitPreferencesMenu = () => {
+  const [units, updateUnits] = useUnitPreferences();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" aria-label="Lab units">
+          <Ruler />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>HbA1c</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={units.hba1c}
+          onValueChange={(hba1c) => updateUnits({ hba1c: hba1c as LabUnits["hba1c"] })}
+        >
+          {LAB_UNIT_OPTIONS.hba1c.map((unit) => (
+            <DropdownMenuRadioItem key={unit} value={unit}>
+              {unit === "%" ? "% (NGSP)" : "mmol/mol (IFCC)"}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Blood glucose</DropdownMenuLabel>
+        <DropdownMenuRadioGroup
+          value={units.bloodGlucose}
+          onValueChange={(bloodGlucose) => updateUnits({ bloodGlucose: bloodGlucose as LabUnits["bloodGlucose"] })}
+        >
+          {LAB_UNIT_OPTIONS.bloodGlucose.map((unit) => (
+            <DropdownMenuRadioItem key={unit} value={unit}>
+              {unit}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
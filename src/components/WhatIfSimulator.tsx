@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { ActivityIcon, RotateCcw } from "lucide-react";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import { predictOrEstimate } from "@/lib/fallback-model";
+import type { Prediction } from "@/lib/prediction-client";
+import type { FormData } from "@/lib/prediction-schema";
+import { riskScore } from "@/lib/risk-tier";
+import { formatLabValue } from "@/lib/units";
+import { cn } from "@/lib/utils";
+
+const SMOKING_STEPS = [
+  { value: "never", label: "Never" },
+  { value: "former", label: "Former" },
+  { value: "not_current", label: "Not Current" },
+  { value: "ever", label: "Ever" },
+  { value: "current", label: "Current" },
+];
+
+const MAX_EXPLORED = 12;
+
+const chartConfig = {
+  risk: { label: "Scenario risk (%)", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+interface WhatIfSimulatorProps {
+  input: FormData;
+  baseline: Prediction;
+}
+
+/** Sliders over the modifiable inputs that re-run the prediction and plot the risk against the submitted result. */
+export const WhatIfSimulator = ({ input, baseline }: WhatIfSimulatorProps) => {
+  const [scenario, setScenario] = useState<FormData>(input);
+  const [units] = useUnitPreferences();
+  const [explored, setExplored] = useState<{ step: number; risk: number }[]>([]);
+  const debouncedScenario = useDebouncedValue(scenario, 400);
+  const baselineRisk = Math.round(riskScore(baseline) * 100);
+
+  const { data, error, isFetching } = useQuery({
+    queryKey: ["what-if", debouncedScenario],
+    queryFn: ({ signal }) => predictOrEstimate(debouncedScenario, { signal, maxAttempts: 1 }),
+    // The submitted values were already predicted; don't ask the server again.
+    initialData: debouncedScenario === input ? baseline : undefined,
+    placeholderData: keepPreviousData,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  const scenarioRisk = data ? Math.round(riskScore(data) * 100) : null;
+  // A scenario answered by a different model than the baseline (e.g. the server went away) isn't comparable with it.
+  const comparable = data?.source === baseline.source;
+
+  useEffect(() => {
+    if (scenarioRisk === null || !comparable) return;
+    setExplored((points) => {
+      const step = points.length > 0 ? points[points.length - 1].step + 1 : 1;
+      return [...points, { step, risk: scenarioRisk }].slice(-MAX_EXPLORED);
+    });
+  }, [data, scenarioRisk, comparable]);
+
+  const update = (patch: Partial<FormData>) => setScenario((current) => ({ ...current, ...patch }));
+  const smokingIndex = Math.max(
+    0,
+    SMOKING_STEPS.findIndex((step) => step.value === scenario.smokingHistory),
+  );
+  const delta = scenarioRisk === null || !comparable ? null : scenarioRisk - baselineRisk;
+
+  return (
+    <div className="mt-4 rounded-lg border border-border p-4 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-semibold text-sm">What if?</p>
+        <Button type="button" variant="ghost" size="sm" onClick={() => setScenario(input)}>
+          <RotateCcw />
+          Reset
+        </Button>
+      </div>
+
+      <div className="grid sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="text-xs">BMI: {scenario.bmi.toFixed(1)}</Label>
+          <Slider min={10} max={60} step={0.5} value={[scenario.bmi]} onValueChange={([bmi]) => update({ bmi })} />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-xs">HbA1c: {formatLabValue("hba1c", scenario.hba1c, units.hba1c)}</Label>
+          <Slider min={3} max={15} step={0.1} value={[scenario.hba1c]} onValueChange={([hba1c]) => update({ hba1c })} />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-xs">
+            Blood glucose: {formatLabValue("bloodGlucose", scenario.bloodGlucose, units.bloodGlucose)}
+          </Label>
+          <Slider
+            min={50}
+            max={400}
+            step={1}
+            value={[scenario.bloodGlucose]}
+            onValueChange={([bloodGlucose]) => update({ bloodGlucose })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-xs">Smoking: {SMOKING_STEPS[smokingIndex].label}</Label>
+          <Slider
+            min={0}
+            max={SMOKING_STEPS.length - 1}
+            step={1}
+            value={[smokingIndex]}
+            onValueChange={([index]) => update({ smokingHistory: SMOKING_STEPS[index].value })}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span>
+          Risk: {baselineRisk}% → {scenarioRisk ?? "–"}%
+        </span>
+        {delta !== null && (
+          <span className={cn("font-medium", delta > 0 ? "text-destructive" : delta < 0 ? "text-success" : "")}>
+            ({delta > 0 ? "+" : ""}
+            {delta} points)
+          </span>
+        )}
+        {data?.source === "offline" && <Badge variant="outline">Offline estimate</Badge>}
+        {isFetching && <ActivityIcon className="h-4 w-4 animate-spin text-primary" />}
+      </div>
+      {data && !comparable && (
+        <p className="text-xs text-warning">
+          {data.source === "offline"
+            ? "The prediction service is unreachable, so this scenario is an offline estimate. "
+            : "This scenario comes from the server, but the submitted result was an offline estimate. "}
+          The two models can't be compared, so the change in risk isn't shown or plotted.
+        </p>
+      )}
+      {error && <p className="text-sm text-destructive">Could not update the scenario: {error.message}</p>}
+
+      {explored.length > 0 && (
+        <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+          <LineChart data={explored} margin={{ left: 0, right: 16, top: 8 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="step" tickLine={false} axisLine={false} />
+            <YAxis domain={[0, 100]} width={32} tickLine={false} axisLine={false} />
+            <ReferenceLine
+              y={baselineRisk}
+              stroke="hsl(var(--muted-foreground))"
+              strokeDasharray="4 4"
+              label={{ value: "Baseline", position: "insideTopRight", fontSize: 10 }}
+            />
+            <ChartTooltip
+              content={<ChartTooltipContent labelFormatter={(_, [point]) => `Scenario ${point?.payload.step}`} />}
+            />
+            <Line dataKey="risk" type="monotone" stroke="var(--color-risk)" strokeWidth={2} dot />
+          </LineChart>
+        </ChartContainer>
+      )}
+    </div>
+  );
+};
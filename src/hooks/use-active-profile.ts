@@ -0,0 +1,7 @@
+import * as React from "react";
+
+import { getActiveProfileId, subscribeToActiveProfile } from "@/lib/patient-profiles";
+
+export function useActiveProfileId() {
+  return React.useSyncExternalStore(subscribeToActiveProfile, getActiveProfileId);
+}
@@ -0,0 +1,47 @@
+import { useRef, useState } from "react";
+
+import { predictMany, type BatchOutcome } from "@/lib/prediction-batch";
+import { PredictionAbortedError } from "@/lib/prediction-client";
+import type { FormData } from "@/lib/prediction-schema";
+
+export type BatchState =
+  | { status: "idle" }
+  | { status: "running"; completed: number; total: number }
+  | { status: "done"; outcomes: BatchOutcome[]; completedAt: string }
+  | { status: "cancelled" };
+
+/** Runs `predictMany` over uploaded rows, tracking progress and allowing the run to be cancelled. */
+export function useBatchPrediction() {
+  const [state, setState] = useState<BatchState>({ status: "idle" });
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const run = async (inputs: FormData[]) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setState({ status: "running", completed: 0, total: inputs.length });
+
+    try {
+      const outcomes = await predictMany(inputs, {
+        signal: controller.signal,
+        onProgress: (completed, total) => setState({ status: "running", completed, total }),
+      });
+      if (controllerRef.current === controller) {
+        setState({ status: "done", outcomes, completedAt: new Date().toISOString() });
+      }
+    } catch (error) {
+      if (!(error instanceof PredictionAbortedError)) throw error;
+      if (controllerRef.current === controller) setState({ status: "cancelled" });
+    }
+  };
+
+  const cancel = () => controllerRef.current?.abort();
+
+  const reset = () => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setState({ status: "idle" });
+  };
+
+  return { state, run, cancel, reset };
+}
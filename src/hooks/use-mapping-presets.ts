@@ -0,0 +1,7 @@
+import * as React from "react";
+
+import { getMappingPresets, subscribeToMappingPresets } from "@/lib/mapping-presets";
+
+export function useMappingPresets() {
+  return React.useSyncExternalStore(subscribeToMappingPresets, getMappingPresets);
+}
@@ -0,0 +1,12 @@
+import * as React from "react";
+
+import {
+  getMockBackendSettings,
+  subscribeToMockBackendSettings,
+  updateMockBackendSettings,
+} from "@/lib/mock-prediction-server";
+
+export function useMockBackendSettings() {
+  const settings = React.useSyncExternalStore(subscribeToMockBackendSettings, getMockBackendSettings);
+  return [settings, updateMockBackendSettings] as const;
+}
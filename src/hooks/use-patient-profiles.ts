@@ -0,0 +1,46 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { useActiveProfileId } from "@/hooks/use-active-profile";
+import { PREDICTION_HISTORY_KEY } from "@/hooks/use-prediction-history";
+import {
+  createProfile,
+  deleteProfile,
+  getActiveProfileId,
+  listProfiles,
+  setActiveProfileId,
+} from "@/lib/patient-profiles";
+import { clearPredictionHistory } from "@/lib/prediction-history";
+
+export const PATIENT_PROFILES_KEY = ["patient-profiles"] as const;
+
+export function usePatientProfiles() {
+  const queryClient = useQueryClient();
+  const activeProfileId = useActiveProfileId();
+
+  const profiles = useQuery({ queryKey: PATIENT_PROFILES_KEY, queryFn: listProfiles });
+
+  const create = useMutation({
+    mutationFn: createProfile,
+    onSuccess: (profile) => {
+      setActiveProfileId(profile.id);
+      return queryClient.invalidateQueries({ queryKey: PATIENT_PROFILES_KEY });
+    },
+  });
+
+  /** Deletes a profile together with the predictions it owns. */
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      await clearPredictionHistory(id);
+      await deleteProfile(id);
+    },
+    onSuccess: (_, id) => {
+      if (getActiveProfileId() === id) setActiveProfileId(null);
+      queryClient.invalidateQueries({ queryKey: PREDICTION_HISTORY_KEY });
+      return queryClient.invalidateQueries({ queryKey: PATIENT_PROFILES_KEY });
+    },
+  });
+
+  const activeProfile = profiles.data?.find((profile) => profile.id === activeProfileId) ?? null;
+
+  return { profiles, activeProfile, activeProfileId, setActiveProfileId, create, remove };
+}
@@ -0,0 +1,22 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import { useActiveProfileId } from "@/hooks/use-active-profile";
+import { clearPredictionHistory, deletePrediction, listPredictions } from "@/lib/prediction-history";
+
+export const PREDICTION_HISTORY_KEY = ["prediction-history"] as const;
+
+/** The active profile's saved predictions (anonymous entries when no profile is selected). */
+export function usePredictionHistory() {
+  const queryClient = useQueryClient();
+  const profileId = useActiveProfileId();
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: PREDICTION_HISTORY_KEY });
+
+  const history = useQuery({
+    queryKey: [...PREDICTION_HISTORY_KEY, profileId],
+    queryFn: () => listPredictions(profileId),
+  });
+  const remove = useMutation({ mutationFn: deletePrediction, onSuccess: invalidate });
+  const clearAll = useMutation({ mutationFn: () => clearPredictionHistory(profileId), onSuccess: invalidate });
+
+  return { history, remove, clearAll };
+}
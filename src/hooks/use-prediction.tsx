@@ -0,0 +1,190 @@
+import * as React from "react";
+import { useQueryClient } from "@tanstack/react-query";
+
+import { ToastAction } from "@/components/ui/toast";
+import { PREDICTION_HISTORY_KEY } from "@/hooks/use-prediction-history";
+import { toast } from "@/hooks/use-toast";
+import {
+  CircuitOpenError,
+  isUnreachableError,
+  parseValidationIssues,
+  predict,
+  PredictionAbortedError,
+  PredictionHttpError,
+  PredictionNetworkError,
+  PredictionTimeoutError,
+  UnexpectedResponseError,
+  type BackendValidationIssue,
+  type Prediction,
+} from "@/lib/prediction-client";
+import type { BodyMeasurements } from "@/lib/bmi";
+import { predictOffline } from "@/lib/fallback-model";
+import { getActiveProfileId } from "@/lib/patient-profiles";
+import { savePrediction } from "@/lib/prediction-history";
+import type { FormData } from "@/lib/prediction-schema";
+
+export type PredictionState =
+  | { status: "idle" }
+  | { status: "loading"; attempt: number; retryDelayMs?: number; lastError?: string }
+  | {
+      status: "success";
+      input: FormData;
+      /** The patient profile that was active when the prediction was submitted. */
+      profileId: string | null;
+      /** Height and weight the BMI was calculated from, when it was. */
+      bodyMeasurements?: BodyMeasurements;
+      prediction: Prediction;
+      /** ISO 8601 timestamp of when the result arrived. */
+      completedAt: string;
+      /** Why the offline model answered instead of the server, when it did. */
+      fallbackReason?: PredictionErrorState;
+    }
+  | { status: "network-error"; message: string }
+  | { status: "timeout"; timeoutMs: number }
+  | { status: "circuit-open"; retryAt: number }
+  | { status: "validation-error"; issues: BackendValidationIssue[] }
+  | { status: "server-error"; httpStatus: number; message: string }
+  | { status: "unexpected-response"; message: string };
+
+export type PredictionErrorState = Exclude<PredictionState, { status: "idle" | "loading" | "success" }>;
+
+function toErrorState(error: unknown): PredictionErrorState {
+  if (error instanceof CircuitOpenError) {
+    return { status: "circuit-open", retryAt: error.retryAt };
+  }
+  if (error instanceof PredictionTimeoutError) {
+    return { status: "timeout", timeoutMs: error.timeoutMs };
+  }
+  if (error instanceof PredictionNetworkError) {
+    return { status: "network-error", message: error.message };
+  }
+  if (error instanceof PredictionHttpError) {
+    const issues = parseValidationIssues(error.body);
+    if (error.status === 422 || (error.status === 400 && issues.length > 0)) {
+      return { status: "validation-error", issues };
+    }
+    return { status: "server-error", httpStatus: error.status, message: error.message };
+  }
+  if (error instanceof UnexpectedResponseError) {
+    return { status: "unexpected-response", message: error.message };
+  }
+  return { status: "network-error", message: error instanceof Error ? error.message : String(error) };
+}
+
+const ERROR_TITLES: Record<PredictionErrorState["status"], string> = {
+  "network-error": "Prediction service unreachable",
+  timeout: "The prediction service timed out",
+  "circuit-open": "Prediction requests paused",
+  "validation-error": "The server rejected the submitted values",
+  "server-error": "The prediction service failed",
+  "unexpected-response": "Unexpected response from the prediction service",
+};
+
+export function getPredictionErrorTitle(state: PredictionErrorState) {
+  return ERROR_TITLES[state.status];
+}
+
+/**
+ * Runs predictions for the form and tracks the outcome as a discriminated
+ * state, so a failed request can never be rendered as a clinical result.
+ * Submitting again cancels the request still in flight.
+ */
+export function usePrediction() {
+  const [state, setState] = React.useState<PredictionState>({ status: "idle" });
+  const lastSubmission = React.useRef<{ data: FormData; bodyMeasurements?: BodyMeasurements } | null>(null);
+  const inFlight = React.useRef<AbortController | null>(null);
+  const queryClient = useQueryClient();
+
+  // History is a convenience; failing to store an entry must not hide the result.
+  const recordInHistory = React.useCallback(
+    (data: FormData, prediction: Prediction, profileId: string | null, bodyMeasurements?: BodyMeasurements) =>
+      savePrediction(data, prediction, profileId, bodyMeasurements)
+        .then(() => queryClient.invalidateQueries({ queryKey: PREDICTION_HISTORY_KEY }))
+        .catch((error) => console.error("Could not save prediction to history:", error)),
+    [queryClient],
+  );
+
+  const submit = React.useCallback(async (data: FormData, bodyMeasurements?: BodyMeasurements) => {
+    inFlight.current?.abort();
+    const controller = new AbortController();
+    inFlight.current = controller;
+    lastSubmission.current = { data, bodyMeasurements };
+    // The result belongs to the patient it was submitted for, even if the user switches profile meanwhile.
+    const profileId = getActiveProfileId();
+    const resubmit = () =>
+      lastSubmission.current && submit(lastSubmission.current.data, lastSubmission.current.bodyMeasurements);
+    setState({ status: "loading", attempt: 1 });
+
+    try {
+      const prediction = await predict(data, {
+        signal: controller.signal,
+        onRetry: (attempt, retryDelayMs, error) =>
+          setState({ status: "loading", attempt, retryDelayMs, lastError: error.message }),
+      });
+      const completedAt = new Date().toISOString();
+      setState({ status: "success", input: data, profileId, bodyMeasurements, prediction, completedAt });
+      recordInHistory(data, prediction, profileId, bodyMeasurements);
+    } catch (error) {
+      if (error instanceof PredictionAbortedError) return;
+
+      console.error("Prediction request failed:", error);
+      const errorState = toErrorState(error);
+
+      if (isUnreachableError(error)) {
+        const estimate = predictOffline(data);
+        setState({
+          status: "success",
+          input: data,
+          profileId,
+          bodyMeasurements,
+          prediction: estimate,
+          completedAt: new Date().toISOString(),
+          fallbackReason: errorState,
+        });
+        recordInHistory(data, estimate, profileId, bodyMeasurements);
+        toast({
+          title: "Showing an offline estimate",
+          description: `${getPredictionErrorTitle(errorState)}. The result was estimated in your browser instead.`,
+          action: (
+            <ToastAction altText="Retry prediction" onClick={resubmit}>
+              Retry
+            </ToastAction>
+          ),
+        });
+        return;
+      }
+
+      setState(errorState);
+      toast({
+        variant: "destructive",
+        title: getPredictionErrorTitle(errorState),
+        description: "No result was produced. You can retry the request.",
+        action: (
+          <ToastAction altText="Retry prediction" onClick={resubmit}>
+            Retry
+          </ToastAction>
+        ),
+      });
+    } finally {
+      if (inFlight.current === controller) {
+        inFlight.current = null;
+      }
+    }
+  }, [recordInHistory]);
+
+  const retry = React.useCallback(() => {
+    if (lastSubmission.current) {
+      return submit(lastSubmission.current.data, lastSubmission.current.bodyMeasurements);
+    }
+  }, [submit]);
+
+  const cancel = React.useCallback(() => {
+    inFlight.current?.abort();
+    inFlight.current = null;
+    setState({ status: "idle" });
+  }, []);
+
+  React.useEffect(() => () => inFlight.current?.abort(), []);
+
+  return { state, submit, retry, cancel };
+}
@@ -0,0 +1,8 @@
+import * as React from "react";
+
+import { getUnitPreferences, subscribeToUnitPreferences, updateUnitPreferences } from "@/lib/unit-preferences";
+
+export function useUnitPreferences() {
+  const units = React.useSyncExternalStore(subscribeToUnitPreferences, getUnitPreferences);
+  return [units, updateUnitPreferences] as const;
+}
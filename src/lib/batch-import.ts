@@ -0,0 +1,92 @@
+import { readSheet } from "read-excel-file/browser";
+
+import {
+  CATEGORICAL_FIELDS,
+  FORM_FIELDS,
+  normalizeCode,
+  type ColumnMapping,
+  type DataTable,
+} from "@/lib/column-mapping";
+import { parseCsv } from "@/lib/csv";
+import { FORM_FIELD_LABELS, formSchema, type CategoricalField, type FormData } from "@/lib/prediction-schema";
+
+/** A data row from an uploaded file: either a valid form input or the reasons it isn't one. */
+export type BatchRow =
+  | { line: number; ok: true; input: FormData }
+  | { line: number; ok: false; errors: string[] };
+
+/** The file itself can't be used, as opposed to individual rows being invalid. */
+export class BatchFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BatchFileError";
+  }
+}
+
+const isSpreadsheet = (file: File) => /\.xlsx$/i.test(file.name);
+
+const cellText = (cell: unknown) =>
+  cell === null || cell === undefined ? "" : cell instanceof Date ? cell.toISOString() : String(cell);
+
+/**
+ * Reads a CSV, or the first sheet of an XLSX workbook, into a header row and
+ * data rows. Throws `BatchFileError` when the file can't be read or has no
+ * data rows.
+ */
+export async function readDataTable(file: File): Promise<DataTable> {
+  let cells: string[][];
+  try {
+    cells = isSpreadsheet(file)
+      ? (await readSheet(file)).map((row) => row.map(cellText))
+      : parseCsv(await file.text());
+  } catch (error) {
+    throw new BatchFileError(`The file could not be read: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const [headers, ...rows] = cells;
+  if (!headers || rows.length === 0) {
+    throw new BatchFileError("The file needs a header row and at least one data row.");
+  }
+  return { headers: headers.map((header) => header.trim()), rows };
+}
+
+const isCategorical = (field: keyof FormData): field is CategoricalField =>
+  (CATEGORICAL_FIELDS as string[]).includes(field);
+
+/**
+ * Turns every data row into form values through `mapping` and validates them
+ * with `formSchema`. Categorical codes the mapping doesn't cover are reported
+ * as row errors rather than guessed.
+ */
+export function applyColumnMapping(table: DataTable, mapping: ColumnMapping): BatchRow[] {
+  const columnIndex = Object.fromEntries(
+    FORM_FIELDS.map((field) => [field, table.headers.indexOf(mapping.columns[field] ?? "")]),
+  ) as Record<keyof FormData, number>;
+
+  return table.rows.map((cells, index): BatchRow => {
+    // Numbered from the header row as 1, the way spreadsheets number rows.
+    const line = index + 2;
+    const values: Partial<Record<keyof FormData, string>> = {};
+    const unmapped: string[] = [];
+
+    for (const field of FORM_FIELDS) {
+      const cell = (cells[columnIndex[field]] ?? "").trim();
+      if (!isCategorical(field) || cell === "") {
+        values[field] = cell;
+        continue;
+      }
+      const value = mapping.values[field]?.[normalizeCode(cell)];
+      if (value) values[field] = value;
+      else unmapped.push(`${FORM_FIELD_LABELS[field]}: "${cell}" is not mapped to a value`);
+    }
+
+    const parsed = formSchema.safeParse(values);
+    if (parsed.success && unmapped.length === 0) return { line, ok: true, input: parsed.data as FormData };
+    const issues = parsed.success
+      ? []
+      : parsed.error.issues
+          .filter((issue) => values[issue.path[0] as keyof FormData] !== undefined)
+          .map((issue) => `${FORM_FIELD_LABELS[issue.path[0] as keyof FormData]}: ${issue.message}`);
+    return { line, ok: false, errors: [...unmapped, ...issues] };
+  });
+}
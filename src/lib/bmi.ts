@@ -0,0 +1,41 @@
+import { cmToFeetAndInches, kgToPounds, roundTo } from "@/lib/units";
+
+export type MeasurementSystem = "metric" | "imperial";
+
+/**
+ * Height and weight a BMI was calculated from. They are kept in metric
+ * whichever system they were entered in; `system` remembers which that was.
+ */
+export interface BodyMeasurements {
+  heightCm: number;
+  weightKg: number;
+  system: MeasurementSystem;
+}
+
+/** Plausible adult measurements; anything outside is more likely a typo or the wrong unit. */
+export const MEASUREMENT_LIMITS = {
+  heightCm: { min: 100, max: 250 },
+  weightKg: { min: 25, max: 350 },
+} as const;
+
+/** BMI in kg/m², rounded to one decimal place as the form takes it. */
+export const bmiFromMeasurements = ({ heightCm, weightKg }: Pick<BodyMeasurements, "heightCm" | "weightKg">) =>
+  roundTo(weightKg / (heightCm / 100) ** 2, 1);
+
+/** A height in whole feet and inches, e.g. 182.8 cm → 6 ft 0 in rather than 5 ft 12 in. */
+export function toFeetAndInches(heightCm: number) {
+  const { feet, inches } = cmToFeetAndInches(heightCm);
+  const rounded = roundTo(inches, 0);
+  return rounded === 12 ? { feet: feet + 1, inches: 0 } : { feet, inches: rounded };
+}
+
+/** Height as it was entered, e.g. `170 cm` or `5 ft 7 in`. */
+export function formatHeight({ heightCm, system }: Pick<BodyMeasurements, "heightCm" | "system">) {
+  if (system === "metric") return `${roundTo(heightCm, 1)} cm`;
+  const { feet, inches } = toFeetAndInches(heightCm);
+  return `${feet} ft ${inches} in`;
+}
+
+/** Weight as it was entered, e.g. `79 kg` or `174 lb`. */
+export const formatWeight = ({ weightKg, system }: BodyMeasurements) =>
+  system === "metric" ? `${roundTo(weightKg, 1)} kg` : `${roundTo(kgToPounds(weightKg), 0)} lb`;
@@ -0,0 +1,86 @@
+/** Permission to send one request, returned by `CircuitBreaker.tryAcquire`. */
+export interface CircuitPermit {
+  /** Whether this request is the half-open trial whose outcome decides the circuit. */
+  readonly trial: boolean;
+}
+
+/**
+ * Counts consecutive failures and, past a threshold, refuses requests for a
+ * cooldown period. After the cooldown the circuit is half-open: one trial
+ * request is let through while other callers wait on `pendingTrial()`. A
+ * success closes the circuit, a failure opens it again.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trial: { permit: CircuitPermit; settled: Promise<void>; settle: () => void } | null = null;
+
+  constructor(
+    private readonly threshold: number,
+    private readonly cooldownMs: number,
+  ) {}
+
+  /** Milliseconds until requests are allowed again; 0 when the circuit is closed or half-open. */
+  remainingCooldown(now = Date.now()): number {
+    if (this.openedAt === null) return 0;
+    return Math.max(0, this.openedAt + this.cooldownMs - now);
+  }
+
+  /** Resolves once the half-open trial request settles; `null` when none is in flight. */
+  pendingTrial(): Promise<void> | null {
+    return this.trial?.settled ?? null;
+  }
+
+  /**
+   * Claims permission to send a request, or returns `null` while the circuit
+   * is open or another caller holds the half-open trial. The outcome must be
+   * reported with the permit through `recordSuccess`, `recordFailure` or
+   * `release`; only the trial's own permit settles the trial.
+   */
+  tryAcquire(now = Date.now()): CircuitPermit | null {
+    if (this.openedAt === null) return { trial: false };
+    if (this.remainingCooldown(now) > 0 || this.trial) return null;
+    const permit: CircuitPermit = { trial: true };
+    let settle: () => void;
+    const settled = new Promise<void>((resolve) => (settle = resolve));
+    this.trial = { permit, settled, settle };
+    return permit;
+  }
+
+  /** The service answered; any answer, even an error response, shows it is reachable. */
+  recordSuccess(permit?: CircuitPermit) {
+    this.failures = 0;
+    this.openedAt = null;
+    this.settleTrial(permit);
+  }
+
+  recordFailure(permit?: CircuitPermit, now = Date.now()) {
+    this.failures += 1;
+    if (this.failures >= this.threshold || this.isTrial(permit)) {
+      this.openedAt = now;
+    }
+    this.settleTrial(permit);
+  }
+
+  /** Ends a request that says nothing about the service (e.g. it was cancelled), so the next caller can try. */
+  release(permit: CircuitPermit) {
+    this.settleTrial(permit);
+  }
+
+  reset() {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trial?.settle();
+    this.trial = null;
+  }
+
+  private isTrial(permit: CircuitPermit | undefined) {
+    return permit !== undefined && this.trial?.permit === permit;
+  }
+
+  private settleTrial(permit: CircuitPermit | undefined) {
+    if (!this.isTrial(permit)) return;
+    this.trial.settle();
+    this.trial = null;
+  }
+}
@@ -0,0 +1,156 @@
+import { FORM_FIELD_BY_BACKEND_FIELD } from "@/lib/prediction-client";
+import {
+  CATEGORICAL_OPTIONS,
+  FORM_FIELD_LABELS,
+  type CategoricalField,
+  type FormData,
+} from "@/lib/prediction-schema";
+
+export const FORM_FIELDS = Object.keys(FORM_FIELD_LABELS) as (keyof FormData)[];
+export const CATEGORICAL_FIELDS = Object.keys(CATEGORICAL_OPTIONS) as CategoricalField[];
+
+/** A spreadsheet or CSV read into a header row and data rows of cell text. */
+export interface DataTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/** How an imported table's columns and codes translate into form values. */
+export interface ColumnMapping {
+  /** The source column header feeding each form field. */
+  columns: Partial<Record<keyof FormData, string>>;
+  /** Per categorical field, each source code (see `normalizeCode`) and the form value it stands for. */
+  values: Partial<Record<CategoricalField, Record<string, string>>>;
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s_-]/g, "");
+
+/** Source codes are compared trimmed and case-insensitively, so `Y`, `y ` and `y` are one code. */
+export const normalizeCode = (value: string) => value.trim().toLowerCase();
+
+/** Exact header spellings: the form's field names, its labels and the backend's field names. */
+const HEADER_ALIASES = new Map<string, keyof FormData>([
+  ...FORM_FIELDS.map((field) => [normalizeHeader(field), field] as const),
+  ...FORM_FIELDS.map((field) => [normalizeHeader(FORM_FIELD_LABELS[field]), field] as const),
+  ...Object.entries(FORM_FIELD_BY_BACKEND_FIELD).map(([backend, field]) => [normalizeHeader(backend), field] as const),
+]);
+
+/** Looser matches tried for headers no alias covers, e.g. `HbA1c (%)` or `Fasting plasma glucose`. */
+const HEADER_PATTERNS: [keyof FormData, RegExp][] = [
+  ["hba1c", /a1c|glycated|glycosylated/],
+  ["bloodGlucose", /glucose|sugar|fpg|^bg/],
+  ["smokingHistory", /smok|tobacco/],
+  ["heartDisease", /heart|cardi|chd|cvd/],
+  ["hypertension", /hypert|htn|bloodpressure/],
+  ["bmi", /bmi|bodymass/],
+  ["gender", /gender|sex/],
+  ["age", /^age|age$|years/],
+];
+
+/** Guesses which column feeds each form field. Each column is used at most once. */
+export function detectColumns(headers: string[]): ColumnMapping["columns"] {
+  const columns: ColumnMapping["columns"] = {};
+  const unused = new Set(headers);
+
+  for (const header of headers) {
+    const field = HEADER_ALIASES.get(normalizeHeader(header));
+    if (field && !columns[field]) {
+      columns[field] = header;
+      unused.delete(header);
+    }
+  }
+  for (const [field, pattern] of HEADER_PATTERNS) {
+    if (columns[field]) continue;
+    const header = [...unused].find((candidate) => pattern.test(normalizeHeader(candidate)));
+    if (header) {
+      columns[field] = header;
+      unused.delete(header);
+    }
+  }
+
+  return columns;
+}
+
+const YES_NO_CODES: Record<string, string> = {
+  "1": "yes",
+  y: "yes",
+  yes: "yes",
+  t: "yes",
+  true: "yes",
+  "0": "no",
+  n: "no",
+  no: "no",
+  f: "no",
+  false: "no",
+};
+
+const GENDER_CODES: Record<string, string> = {
+  m: "male",
+  male: "male",
+  man: "male",
+  f: "female",
+  female: "female",
+  woman: "female",
+  o: "other",
+  other: "other",
+};
+
+/**
+ * The form value a source code most likely means, or `undefined` when it's
+ * ambiguous. Codes such as the dataset's "No Info" smoking history are left
+ * for the user to decide.
+ */
+export function suggestValue(field: CategoricalField, code: string): string | undefined {
+  switch (field) {
+    case "hypertension":
+    case "heartDisease":
+      return YES_NO_CODES[code];
+    case "gender":
+      return GENDER_CODES[code];
+    case "smokingHistory": {
+      const value = code.replace(/[\s-]+/g, "_");
+      return CATEGORICAL_OPTIONS.smokingHistory.some((option) => option.value === value) ? value : undefined;
+    }
+  }
+}
+
+/** The distinct codes in `header`'s column, in first-seen order. Blank cells are skipped. */
+export function distinctCodes(table: DataTable, header: string): string[] {
+  const index = table.headers.indexOf(header);
+  if (index === -1) return [];
+  const codes = new Set(table.rows.map((row) => normalizeCode(row[index] ?? "")));
+  codes.delete("");
+  return [...codes];
+}
+
+/**
+ * Value mappings for every code in the mapped categorical columns. Entries in
+ * `previous` win, so choices made earlier (or loaded from a preset) survive
+ * remapping a column; new codes get `suggestValue`'s guess.
+ */
+export function detectValues(
+  table: DataTable,
+  columns: ColumnMapping["columns"],
+  previous: ColumnMapping["values"] = {},
+): ColumnMapping["values"] {
+  const values: ColumnMapping["values"] = {};
+  for (const field of CATEGORICAL_FIELDS) {
+    const header = columns[field];
+    if (!header) continue;
+    values[field] = {};
+    for (const code of distinctCodes(table, header)) {
+      const value = previous[field]?.[code] ?? suggestValue(field, code);
+      if (value) values[field][code] = value;
+    }
+  }
+  return values;
+}
+
+/** Form fields that still have no column. */
+export const unmappedFields = (mapping: ColumnMapping) => FORM_FIELDS.filter((field) => !mapping.columns[field]);
+
+/** A suggested mapping for a freshly loaded table. */
+export function detectMapping(table: DataTable): ColumnMapping {
+  const columns = detectColumns(table.headers);
+  return { columns, values: detectValues(table, columns) };
+}
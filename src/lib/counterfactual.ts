@@ -0,0 +1,162 @@
+import { mapWithConcurrency } from "@/lib/concurrency";
+import type { Prediction } from "@/lib/prediction-client";
+import type { FormData } from "@/lib/prediction-schema";
+
+export type ModifiableFeature = "bmi" | "hba1c" | "bloodGlucose" | "smokingHistory";
+
+type NumericFeature = Exclude<ModifiableFeature, "smokingHistory">;
+
+interface NumericSearchSpace {
+  /** Smallest change worth reporting. */
+  step: number;
+  /** Lowest realistic target from the current value. */
+  lowest: (value: number) => number;
+  /** A change of this size costs 1; used to rank suggestions by effort. */
+  typicalChange: number;
+}
+
+/**
+ * How far each modifiable input can realistically move. Age, gender,
+ * hypertension and heart disease are held fixed.
+ */
+const NUMERIC_SPACES: Record<NumericFeature, NumericSearchSpace> = {
+  bmi: { step: 0.5, lowest: (value) => Math.max(18.5, value * 0.8), typicalChange: 5 },
+  hba1c: { step: 0.1, lowest: (value) => Math.max(4.5, value - 2.5), typicalChange: 1.5 },
+  bloodGlucose: { step: 5, lowest: (value) => Math.max(80, value - 120), typicalChange: 60 },
+};
+
+/** Quitting is modelled as moving a current smoker to "former". */
+const QUIT_SMOKING_COST = 1;
+
+export interface FeatureChange {
+  feature: ModifiableFeature;
+  from: number | string;
+  to: number | string;
+}
+
+export interface Counterfactual {
+  changes: FeatureChange[];
+  prediction: Prediction;
+  /** Effort score; lower is easier. */
+  cost: number;
+}
+
+export type Evaluate = (data: FormData) => Promise<Prediction>;
+
+const roundToStep = (value: number, step: number) => Math.round(value / step) * step;
+
+const flipsToNegative = (prediction: Prediction) => prediction.label === "non-diabetic";
+
+/** Applies a fraction `t` in (0, 1] of the maximum realistic change to each feature in `features`. */
+function applyChange(
+  input: FormData,
+  features: ModifiableFeature[],
+  t: number,
+): { data: FormData; changes: FeatureChange[] } {
+  const data = { ...input };
+  const changes: FeatureChange[] = [];
+
+  for (const feature of features) {
+    if (feature === "smokingHistory") {
+      data.smokingHistory = "former";
+      changes.push({ feature, from: input.smokingHistory, to: "former" });
+      continue;
+    }
+    const { step, lowest } = NUMERIC_SPACES[feature];
+    const from = input[feature];
+    const to = Number(roundToStep(from - (from - lowest(from)) * t, step).toFixed(2));
+    data[feature] = to;
+    changes.push({ feature, from, to });
+  }
+
+  return { data, changes };
+}
+
+const costOf = (changes: FeatureChange[]) =>
+  changes.reduce(
+    (total, change) =>
+      total +
+      (change.feature === "smokingHistory"
+        ? QUIT_SMOKING_COST
+        : Math.abs(Number(change.from) - Number(change.to)) / NUMERIC_SPACES[change.feature].typicalChange),
+    0,
+  );
+
+function modifiableFeatures(input: FormData): ModifiableFeature[] {
+  const numeric = (Object.keys(NUMERIC_SPACES) as NumericFeature[]).filter(
+    (feature) => input[feature] - NUMERIC_SPACES[feature].lowest(input[feature]) >= NUMERIC_SPACES[feature].step,
+  );
+  return input.smokingHistory === "current" ? [...numeric, "smokingHistory"] : numeric;
+}
+
+function subsetsOf<T>(items: T[]): T[][] {
+  return items
+    .reduce<T[][]>((subsets, item) => [...subsets, ...subsets.map((subset) => [...subset, item])], [[]])
+    .filter((subset) => subset.length > 0)
+    .sort((a, b) => a.length - b.length);
+}
+
+/**
+ * Finds the smallest proportional change along `features` that flips the
+ * prediction, by bisecting the fraction of the maximum realistic change.
+ * Assumes risk falls as the inputs fall.
+ */
+async function searchDirection(
+  input: FormData,
+  features: ModifiableFeature[],
+  evaluate: Evaluate,
+): Promise<Counterfactual | null> {
+  const full = applyChange(input, features, 1);
+  const fullPrediction = await evaluate(full.data);
+  if (!flipsToNegative(fullPrediction)) return null;
+
+  let best = { ...full, prediction: fullPrediction };
+  const onlySmoking = features.every((feature) => feature === "smokingHistory");
+  if (!onlySmoking) {
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 6; i++) {
+      const mid = (low + high) / 2;
+      const candidate = applyChange(input, features, mid);
+      const prediction = await evaluate(candidate.data);
+      if (flipsToNegative(prediction)) {
+        high = mid;
+        best = { ...candidate, prediction };
+      } else {
+        low = mid;
+      }
+    }
+  }
+
+  return { changes: best.changes, prediction: best.prediction, cost: costOf(best.changes) };
+}
+
+/**
+ * Searches combinations of the modifiable inputs (BMI, HbA1c, glucose,
+ * smoking) for the least effortful changes that turn a diabetic prediction
+ * non-diabetic, ranked by effort. Combinations that merely add a feature to
+ * a cheaper suggestion are dropped.
+ */
+export async function findCounterfactuals(input: FormData, evaluate: Evaluate, limit = 5): Promise<Counterfactual[]> {
+  const cache = new Map<string, Promise<Prediction>>();
+  const cachedEvaluate: Evaluate = (data) => {
+    const key = JSON.stringify(data);
+    if (!cache.has(key)) cache.set(key, evaluate(data));
+    return cache.get(key);
+  };
+
+  const directions = subsetsOf(modifiableFeatures(input));
+  const found = await mapWithConcurrency(directions, 4, (features) => searchDirection(input, features, cachedEvaluate));
+
+  const ranked = found
+    .filter((candidate): candidate is Counterfactual => candidate !== null)
+    .sort((a, b) => a.cost - b.cost);
+  const kept: Counterfactual[] = [];
+  for (const candidate of ranked) {
+    const features = candidate.changes.map((change) => change.feature);
+    const redundant = kept.some((cheaper) => cheaper.changes.every((change) => features.includes(change.feature)));
+    if (!redundant) kept.push(candidate);
+  }
+
+  return kept.slice(0, limit);
+}
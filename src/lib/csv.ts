@@ -0,0 +1,57 @@
+/**
+ * Parses RFC 4180 CSV into rows of cells. Quoted cells may contain commas,
+ * line breaks and doubled quotes; CRLF and LF line endings are both accepted.
+ * Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  const endCell = () => {
+    row.push(cell);
+    cell = "";
+  };
+  const endRow = () => {
+    endCell();
+    if (row.length > 1 || row[0].trim() !== "") rows.push(row);
+    row = [];
+  };
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (input[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      endCell();
+    } else if (char === "\n") {
+      endRow();
+    } else if (char !== "\r") {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+const quoteCell = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Writes rows as RFC 4180 CSV with CRLF line endings, quoting only cells that need it. */
+export function formatCsv(rows: (string | number | null)[][]): string {
+  return rows.map((row) => row.map(quoteCell).join(",")).join("\r\n") + "\r\n";
+}
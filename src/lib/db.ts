@@ -0,0 +1,73 @@
+const DB_NAME = "diabetes-prediction";
+const DB_VERSION = 2;
+
+export const STORES = {
+  predictions: "predictions",
+  profiles: "profiles",
+} as const;
+
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let database: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+function upgrade(db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) {
+  if (oldVersion < 1) {
+    const predictions = db.createObjectStore(STORES.predictions, { keyPath: "id" });
+    predictions.createIndex("createdAt", "createdAt");
+  }
+  if (oldVersion < 2) {
+    db.createObjectStore(STORES.profiles, { keyPath: "id" });
+    transaction.objectStore(STORES.predictions).createIndex("profileId", "profileId");
+  }
+}
+
+/** Opens (and on first use creates or migrates) the app's IndexedDB database. */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, request.transaction, event.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+}
+
+async function withStore<T>(
+  store: StoreName,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, mode);
+  const result = await promisify(run(transaction.objectStore(store)));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  return result;
+}
+
+export const getAll = <T>(store: StoreName) => withStore<T[]>(store, "readonly", (objectStore) => objectStore.getAll());
+
+export const getOne = <T>(store: StoreName, key: IDBValidKey) =>
+  withStore<T | undefined>(store, "readonly", (objectStore) => objectStore.get(key));
+
+export const put = <T>(store: StoreName, value: T) =>
+  withStore(store, "readwrite", (objectStore) => objectStore.put(value)).then(() => value);
+
+export const remove = (store: StoreName, key: IDBValidKey) =>
+  withStore(store, "readwrite", (objectStore) => objectStore.delete(key));
+
+export const clear = (store: StoreName) => withStore(store, "readwrite", (objectStore) => objectStore.clear());
@@ -0,0 +1,73 @@
+import model from "@/lib/fallback-model.json";
+import {
+  isUnreachableError,
+  predict,
+  toPredictionRequest,
+  type FeatureContribution,
+  type PredictOptions,
+  type Prediction,
+} from "@/lib/prediction-client";
+import type { FormData } from "@/lib/prediction-schema";
+
+type NumericFeature = keyof typeof model.numeric;
+type BinaryFeature = keyof typeof model.binary;
+
+export const FALLBACK_MODEL_VERSION = model.version;
+
+const sigmoid = (logit: number) => 1 / (1 + Math.exp(-logit));
+
+/**
+ * Each feature's term in the logistic regression: how far it moves the
+ * log-odds away from an average patient (numeric features) or from the
+ * reference category (never smoked, female, no condition).
+ */
+export function fallbackContributions(data: FormData): FeatureContribution[] {
+  const request = toPredictionRequest(data);
+  const term = (feature: NumericFeature) => {
+    const { mean, std, coefficient } = model.numeric[feature];
+    return coefficient * ((request[feature] - mean) / std);
+  };
+  const binary = (feature: BinaryFeature) => model.binary[feature] * request[feature];
+  const gender = model.categorical.gender;
+  const smoking = model.categorical.smoking_history;
+
+  return [
+    { feature: "hba1c", value: term("HbA1c_level") },
+    { feature: "bloodGlucose", value: term("blood_glucose_level") },
+    { feature: "bmi", value: term("bmi") },
+    { feature: "age", value: term("age") },
+    { feature: "hypertension", value: binary("hypertension") },
+    { feature: "heartDisease", value: binary("heart_disease") },
+    { feature: "smokingHistory", value: smoking[request.smoking_history as keyof typeof smoking] ?? 0 },
+    { feature: "gender", value: gender[request.gender as keyof typeof gender] ?? 0 },
+  ];
+}
+
+/** Log-odds of diabetes under the shipped logistic-regression coefficients. */
+export function fallbackLogit(data: FormData): number {
+  return fallbackContributions(data).reduce((logit, { value }) => logit + value, model.intercept);
+}
+
+/** Estimates risk entirely in the browser, for when the prediction service cannot be reached. */
+export function predictOffline(data: FormData): Prediction {
+  const probability = sigmoid(fallbackLogit(data));
+
+  return {
+    label: probability >= model.threshold ? "diabetic" : "non-diabetic",
+    probability,
+    models: [],
+    contributions: fallbackContributions(data),
+    modelVersion: model.version,
+    source: "offline",
+  };
+}
+
+/** Asks the prediction service, answering with the offline model when the service is unreachable. */
+export async function predictOrEstimate(data: FormData, options?: PredictOptions): Promise<Prediction> {
+  try {
+    return await predict(data, options);
+  } catch (error) {
+    if (isUnreachableError(error)) return predictOffline(data);
+    throw error;
+  }
+}
@@ -0,0 +1,27 @@
+import { fallbackContributions } from "@/lib/fallback-model";
+import type { Prediction } from "@/lib/prediction-client";
+import { FORM_FIELD_LABELS, type FormData } from "@/lib/prediction-schema";
+
+export interface RankedContribution {
+  /** Display label of the input. */
+  feature: string;
+  /** Effect on the log-odds of diabetes, rounded to two decimals. */
+  value: number;
+}
+
+/**
+ * Per-input effects on the prediction, largest first. Uses the backend's
+ * explanation values when it sends them and approximates them with the
+ * offline model otherwise; `fromServer` says which.
+ */
+export function rankContributions(prediction: Prediction, input: FormData) {
+  const fromServer = prediction.source === "server" && prediction.contributions !== undefined;
+  const contributions = (prediction.contributions ?? fallbackContributions(input))
+    .map(({ feature, value }): RankedContribution => ({
+      feature: FORM_FIELD_LABELS[feature as keyof FormData] ?? feature,
+      value: Math.round(value * 100) / 100,
+    }))
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value));
+
+  return { contributions, fromServer };
+}
@@ -0,0 +1,62 @@
+import { CODE_SYSTEMS, type Coding } from "@/lib/fhir-schema";
+
+/** LOINC codes read from Observations, most specific first. The first code is the one written on export. */
+export const OBSERVATION_CODES = {
+  bmi: ["39156-5"],
+  /** `%` (NGSP) codes, then 59261-8 reported in mmol/mol (IFCC). */
+  hba1c: ["4548-4", "17856-6", "4549-2", "59261-8"],
+  /** Mass (mg/dL) codes, then molar (mmol/L) codes. */
+  bloodGlucose: ["2339-0", "2345-7", "1558-6", "41653-7", "15074-8", "14749-6", "14771-0"],
+  smokingStatus: ["72166-2"],
+} as const;
+
+export const AGE_LOINC = "30525-0";
+export const SEX_LOINC = "46098-0";
+export const BODY_HEIGHT_LOINC = "8302-2";
+export const BODY_WEIGHT_LOINC = "29463-7";
+
+/** Tobacco smoking status answers (SNOMED CT) and the form's smoking history value for each. */
+export const SMOKING_STATUS_CODES: Record<string, string> = {
+  "266919005": "never",
+  "8517006": "former",
+  "449868002": "current",
+  "428041000124106": "current",
+  "428061000124105": "current",
+  "428071000124103": "current",
+  "77176002": "current",
+};
+
+/** The SNOMED CT answer written for each smoking history value on export. */
+export const SMOKING_HISTORY_CODINGS: Record<string, Coding> = {
+  never: { system: CODE_SYSTEMS.snomed, code: "266919005", display: "Never smoked tobacco" },
+  former: { system: CODE_SYSTEMS.snomed, code: "8517006", display: "Ex-smoker" },
+  current: { system: CODE_SYSTEMS.snomed, code: "77176002", display: "Smoker" },
+  ever: { system: CODE_SYSTEMS.snomed, code: "77176002", display: "Smoker" },
+  not_current: { system: CODE_SYSTEMS.snomed, code: "8517006", display: "Ex-smoker" },
+};
+
+/**
+ * Condition codes counted as hypertension or heart disease: SNOMED CT
+ * concepts, and ICD-10 code prefixes (I10–I15 and I20–I25, I50).
+ */
+export const CONDITION_CODES = {
+  hypertension: {
+    snomed: ["38341003", "59621000", "1201005", "78975002"],
+    icd10: ["I10", "I11", "I12", "I13", "I15"],
+  },
+  heartDisease: {
+    snomed: ["56265001", "53741008", "22298006", "84114007", "194828000", "414545008"],
+    icd10: ["I20", "I21", "I22", "I23", "I24", "I25", "I50"],
+  },
+} as const;
+
+export const CONDITION_CODINGS: Record<keyof typeof CONDITION_CODES, Coding> = {
+  hypertension: { system: CODE_SYSTEMS.snomed, code: "38341003", display: "Hypertensive disorder" },
+  heartDisease: { system: CODE_SYSTEMS.snomed, code: "56265001", display: "Heart disease" },
+};
+
+export const DIABETES_OUTCOME: Coding = {
+  system: CODE_SYSTEMS.snomed,
+  code: "73211009",
+  display: "Diabetes mellitus",
+};
@@ -0,0 +1,150 @@
+import {
+  AGE_LOINC,
+  BODY_HEIGHT_LOINC,
+  BODY_WEIGHT_LOINC,
+  CONDITION_CODINGS,
+  DIABETES_OUTCOME,
+  OBSERVATION_CODES,
+  SEX_LOINC,
+  SMOKING_HISTORY_CODINGS,
+} from "@/lib/fhir-codes";
+import {
+  CODE_SYSTEMS,
+  riskAssessmentSchema,
+  type FhirCondition,
+  type FhirObservation,
+  type RiskAssessment,
+} from "@/lib/fhir-schema";
+import type { ExportedPrediction } from "@/lib/prediction-export";
+import { RISK_TIER_LABELS, type RiskTier } from "@/lib/risk-tier";
+
+const QUALITATIVE_RISK: Record<RiskTier, { code: string; display: string }> = {
+  normal: { code: "low", display: "Low likelihood" },
+  "pre-diabetic": { code: "moderate", display: "Moderate likelihood" },
+  indeterminate: { code: "moderate", display: "Moderate likelihood" },
+  diabetic: { code: "high", display: "High likelihood" },
+};
+
+const DISCLAIMER = "This is a model-generated medical risk estimation and not a diagnosis.";
+
+/** Profiles are identified by their UUID; anonymous predictions have only a display name. */
+const subjectOf = ({ profileId }: ExportedPrediction) =>
+  profileId
+    ? { identifier: { system: "urn:ietf:rfc:3986", value: `urn:uuid:${profileId}` } }
+    : { display: "Anonymous patient" };
+
+/**
+ * The prediction's inputs as contained resources: an Observation per
+ * measurement and a Condition for hypertension and heart disease, marked
+ * refuted when the answer was "no". When the BMI was calculated, the height
+ * and weight it came from are included too.
+ */
+function containedInputs(prediction: ExportedPrediction): (FhirObservation | FhirCondition)[] {
+  const { input, bodyMeasurements, createdAt } = prediction;
+  const subject = subjectOf(prediction);
+  const observation = (
+    id: string,
+    code: string,
+    display: string,
+    value: Partial<FhirObservation>,
+  ): FhirObservation => ({
+    resourceType: "Observation",
+    id,
+    status: "final",
+    code: { coding: [{ system: CODE_SYSTEMS.loinc, code, display }] },
+    subject,
+    effectiveDateTime: createdAt,
+    ...value,
+  });
+  const quantity = (value: number, unit: string) => ({
+    valueQuantity: { value, unit, system: CODE_SYSTEMS.ucum, code: unit },
+  });
+  const condition = (field: "hypertension" | "heartDisease"): FhirCondition => ({
+    resourceType: "Condition",
+    id: field === "hypertension" ? "hypertension" : "heart-disease",
+    ...(input[field] === "yes"
+      ? { clinicalStatus: { coding: [{ system: CODE_SYSTEMS.conditionClinical, code: "active" }] } }
+      : { verificationStatus: { coding: [{ system: CODE_SYSTEMS.conditionVerification, code: "refuted" }] } }),
+    code: { coding: [CONDITION_CODINGS[field]] },
+    subject,
+  });
+
+  return [
+    observation("age", AGE_LOINC, "Age", quantity(input.age, "a")),
+    observation("sex", SEX_LOINC, "Sex", {
+      valueCodeableConcept: { coding: [{ system: CODE_SYSTEMS.administrativeGender, code: input.gender }] },
+    }),
+    observation("bmi", OBSERVATION_CODES.bmi[0], "Body mass index (BMI) [Ratio]", quantity(input.bmi, "kg/m2")),
+    observation(
+      "hba1c",
+      OBSERVATION_CODES.hba1c[0],
+      "Hemoglobin A1c/Hemoglobin.total in Blood",
+      quantity(input.hba1c, "%"),
+    ),
+    observation(
+      "glucose",
+      OBSERVATION_CODES.bloodGlucose[0],
+      "Glucose [Mass/volume] in Blood",
+      quantity(input.bloodGlucose, "mg/dL"),
+    ),
+    observation("smoking", OBSERVATION_CODES.smokingStatus[0], "Tobacco smoking status", {
+      valueCodeableConcept: { coding: [SMOKING_HISTORY_CODINGS[input.smokingHistory]], text: input.smokingHistory },
+    }),
+    condition("hypertension"),
+    condition("heartDisease"),
+    ...(bodyMeasurements
+      ? [
+          observation("height", BODY_HEIGHT_LOINC, "Body height", quantity(bodyMeasurements.heightCm, "cm")),
+          observation("weight", BODY_WEIGHT_LOINC, "Body weight", quantity(bodyMeasurements.weightKg, "kg")),
+        ]
+      : []),
+  ];
+}
+
+/**
+ * A FHIR R4 RiskAssessment for one prediction, with its inputs contained and
+ * referenced as the basis. The result is checked against the local schema,
+ * which throws if it doesn't conform.
+ */
+export function toRiskAssessment(prediction: ExportedPrediction): RiskAssessment {
+  const contained = containedInputs(prediction);
+  const qualitative = QUALITATIVE_RISK[prediction.tier];
+  const method = `Diabetes risk model ${prediction.modelVersion ?? "(unknown version)"}`;
+
+  return riskAssessmentSchema.parse({
+    resourceType: "RiskAssessment",
+    id: crypto.randomUUID(),
+    contained,
+    status: "final",
+    method: {
+      text: prediction.source === "offline" ? `${method}, estimated offline in the browser` : method,
+    },
+    code: { text: "Diabetes risk assessment" },
+    subject: subjectOf(prediction),
+    occurrenceDateTime: prediction.createdAt,
+    basis: contained.map((resource) => ({ reference: `#${resource.id}` })),
+    prediction: [
+      {
+        outcome: { coding: [DIABETES_OUTCOME] },
+        probabilityDecimal: prediction.probability,
+        qualitativeRisk: {
+          coding: [{ system: CODE_SYSTEMS.riskProbability, ...qualitative }],
+          text: RISK_TIER_LABELS[prediction.tier],
+        },
+      },
+    ],
+    note: [{ text: DISCLAIMER }],
+  });
+}
+
+/** One RiskAssessment on its own, or a `collection` Bundle of them. */
+export function toFhirExport(predictions: ExportedPrediction[]) {
+  const resources = predictions.map(toRiskAssessment);
+  if (resources.length === 1) return resources[0];
+  return {
+    resourceType: "Bundle",
+    type: "collection",
+    timestamp: new Date().toISOString(),
+    entry: resources.map((resource) => ({ fullUrl: `urn:uuid:${resource.id}`, resource })),
+  };
+}
@@ -0,0 +1,223 @@
+import type { ZodError, ZodType } from "zod";
+
+import { CONDITION_CODES, OBSERVATION_CODES, SMOKING_STATUS_CODES } from "@/lib/fhir-codes";
+import {
+  bundleSchema,
+  CODE_SYSTEMS,
+  conditionSchema,
+  observationSchema,
+  patientSchema,
+  type CodeableConcept,
+  type FhirCondition,
+  type FhirObservation,
+} from "@/lib/fhir-schema";
+import { ageFromDateOfBirth } from "@/lib/patient-profiles";
+import type { FormData } from "@/lib/prediction-schema";
+import { labValueInFormUnit, roundTo } from "@/lib/units";
+
+/** A form value found in the bundle, with a note on where it came from. */
+export interface FhirFinding<K extends keyof FormData = keyof FormData> {
+  field: K;
+  value: FormData[K];
+  source: string;
+}
+
+export interface FhirImportResult {
+  findings: FhirFinding[];
+  /** Things the user should know about, e.g. an unrecognised unit. */
+  warnings: string[];
+}
+
+/** The input isn't a FHIR R4 Bundle this app can read. */
+export class FhirImportError extends Error {
+  constructor(
+    message: string,
+    readonly issues: string[] = [],
+  ) {
+    super(message);
+    this.name = "FhirImportError";
+  }
+}
+
+const hasCode = (concept: CodeableConcept | undefined, system: string, codes: readonly string[]) =>
+  concept?.coding?.some((coding) => coding.system === system && codes.includes(coding.code ?? "")) ?? false;
+
+const hasCodePrefix = (concept: CodeableConcept | undefined, systems: string[], prefixes: readonly string[]) =>
+  concept?.coding?.some(
+    (coding) => systems.includes(coding.system ?? "") && prefixes.some((prefix) => coding.code?.startsWith(prefix)),
+  ) ?? false;
+
+const observationTime = (observation: FhirObservation) => observation.effectiveDateTime ?? observation.issued ?? "";
+
+const hasQuantity = (observation: FhirObservation) => observation.valueQuantity?.value !== undefined;
+const hasCodedValue = (observation: FhirObservation) => Boolean(observation.valueCodeableConcept?.coding?.length);
+
+/**
+ * The most recent Observation with one of `codes` that carries a value.
+ * When newer ones have none (e.g. only a `dataAbsentReason`), a warning
+ * says so, and which older result was used instead.
+ */
+function latestObservation(
+  observations: FhirObservation[],
+  codes: readonly string[],
+  hasValue: (observation: FhirObservation) => boolean,
+  warnings: string[],
+) {
+  const coded = observations
+    .filter((observation) => hasCode(observation.code, CODE_SYSTEMS.loinc, codes))
+    .sort((a, b) => observationTime(b).localeCompare(observationTime(a)));
+  const latest = coded.find(hasValue);
+  const newest = coded[0];
+  if (newest && newest !== latest) {
+    const absent = newest.dataAbsentReason?.coding?.[0];
+    const reason = absent ? ` (${absent.display ?? absent.code})` : "";
+    const fallback = latest ? `using the earlier ${describe(latest)}` : "skipped";
+    warnings.push(`${describe(newest)} has no value${reason}; ${fallback}.`);
+  }
+  return latest;
+}
+
+const describe = (observation: FhirObservation) => {
+  const coding = observation.code.coding?.find((candidate) => candidate.system === CODE_SYSTEMS.loinc);
+  const when = observation.effectiveDateTime ? ` on ${observation.effectiveDateTime.slice(0, 10)}` : "";
+  return `Observation LOINC ${coding?.code}${when}`;
+};
+
+const unitOf = (observation: FhirObservation) =>
+  (observation.valueQuantity?.code ?? observation.valueQuantity?.unit ?? "").toLowerCase();
+
+/** Converts a lab value to the form's unit, or returns `undefined` for units we don't know. */
+function labValue(field: "hba1c" | "bloodGlucose", observation: FhirObservation): number | undefined {
+  const value = observation.valueQuantity?.value;
+  return value === undefined ? undefined : labValueInFormUnit(field, value, unitOf(observation));
+}
+
+/** FHIR dates may be just `YYYY` or `YYYY-MM`; partial dates are taken as mid-year or the 1st of the month. */
+const fullDate = (date: string) => (date.length === 4 ? `${date}-07-01` : date.padEnd(10, "-01"));
+
+/**
+ * `present` for active conditions (or ones without a clinical status),
+ * `refuted` when the record says the patient does not have it, and
+ * `undefined` for resolved or erroneous entries.
+ */
+function conditionState(condition: FhirCondition): "present" | "refuted" | undefined {
+  const clinical = condition.clinicalStatus?.coding?.[0]?.code;
+  const verification = condition.verificationStatus?.coding?.[0]?.code;
+  if (verification === "refuted") return "refuted";
+  if (verification === "entered-in-error") return undefined;
+  return !clinical || ["active", "recurrence", "relapse"].includes(clinical) ? "present" : undefined;
+}
+
+const issueList = (error: ZodError) =>
+  error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+
+/**
+ * The resources of one type that match the app's schema. The rest are
+ * skipped with a warning, so one malformed entry doesn't block the import.
+ */
+function validResources<T>(
+  resources: { resourceType?: string; id?: unknown }[],
+  resourceType: string,
+  schema: ZodType<T>,
+  warnings: string[],
+): T[] {
+  return resources
+    .filter((resource) => resource.resourceType === resourceType)
+    .flatMap((resource) => {
+      const result = schema.safeParse(resource);
+      if (result.success) return [result.data];
+      const name = typeof resource.id === "string" ? `${resourceType}/${resource.id}` : `A ${resourceType}`;
+      const [issue] = issueList(result.error);
+      warnings.push(`${name} is not valid FHIR R4 (${issue}); skipped.`);
+      return [];
+    });
+}
+
+/**
+ * Reads form values from a FHIR R4 Bundle: age and gender from the Patient,
+ * BMI, HbA1c, glucose and smoking status from the latest matching
+ * Observations, and hypertension and heart disease from active (or
+ * refuted) Conditions.
+ * Fields the bundle says nothing about are left out rather than guessed.
+ */
+export function readFhirBundle(json: unknown): FhirImportResult {
+  const parsed = bundleSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new FhirImportError("This is not a FHIR R4 Bundle.", issueList(parsed.error));
+  }
+
+  const resources = (parsed.data.entry ?? []).map((entry) => entry.resource).filter(Boolean);
+  const patients = resources.filter((resource) => resource.resourceType === "Patient");
+  if (patients.length > 1) {
+    throw new FhirImportError("The bundle contains more than one Patient; import one patient at a time.");
+  }
+  const parsedPatient = patients[0] && patientSchema.safeParse(patients[0]);
+  if (parsedPatient && !parsedPatient.success) {
+    throw new FhirImportError("The bundle's Patient resource is not valid FHIR R4.", issueList(parsedPatient.error));
+  }
+  const patient = parsedPatient?.data;
+
+  const findings: FhirFinding[] = [];
+  const warnings: string[] = [];
+
+  const observations = validResources(resources, "Observation", observationSchema, warnings).filter(
+    (observation) => !["cancelled", "entered-in-error"].includes(observation.status),
+  );
+  const conditions = validResources(resources, "Condition", conditionSchema, warnings);
+
+  if (patient?.birthDate) {
+    const age = ageFromDateOfBirth(fullDate(patient.birthDate));
+    findings.push({ field: "age", value: age, source: `Patient.birthDate ${patient.birthDate}` });
+  }
+  if (patient?.gender && patient.gender !== "unknown") {
+    findings.push({ field: "gender", value: patient.gender, source: "Patient.gender" });
+  }
+
+  const bmi = latestObservation(observations, OBSERVATION_CODES.bmi, hasQuantity, warnings);
+  if (bmi) {
+    findings.push({ field: "bmi", value: roundTo(bmi.valueQuantity.value, 1), source: describe(bmi) });
+  }
+
+  for (const field of ["hba1c", "bloodGlucose"] as const) {
+    const observation = latestObservation(observations, OBSERVATION_CODES[field], hasQuantity, warnings);
+    if (!observation) continue;
+    const value = labValue(field, observation);
+    if (value === undefined) {
+      warnings.push(`${describe(observation)} has a unit this form can't convert ("${unitOf(observation)}").`);
+    } else {
+      findings.push({ field, value, source: describe(observation) });
+    }
+  }
+
+  const smoking = latestObservation(observations, OBSERVATION_CODES.smokingStatus, hasCodedValue, warnings);
+  if (smoking) {
+    const code = smoking.valueCodeableConcept?.coding?.find((coding) => coding.system === CODE_SYSTEMS.snomed)?.code;
+    const value = code ? SMOKING_STATUS_CODES[code] : undefined;
+    if (value) findings.push({ field: "smokingHistory", value, source: `${describe(smoking)}, SNOMED ${code}` });
+    else warnings.push(`${describe(smoking)} has an unrecognised smoking status answer.`);
+  }
+
+  for (const field of ["hypertension", "heartDisease"] as const) {
+    const { snomed, icd10 } = CONDITION_CODES[field];
+    const matching = conditions.filter(
+      (candidate) =>
+        hasCode(candidate.code, CODE_SYSTEMS.snomed, snomed) ||
+        hasCodePrefix(candidate.code, [CODE_SYSTEMS.icd10, CODE_SYSTEMS.icd10cm], icd10),
+    );
+    // Any current diagnosis wins over a refuted one.
+    const present = matching.find((condition) => conditionState(condition) === "present");
+    const refuted = matching.find((condition) => conditionState(condition) === "refuted");
+    const condition = present ?? refuted;
+    if (condition) {
+      const coding = condition.code?.coding?.[0];
+      const name = coding?.display ?? coding?.code ?? "";
+      findings.push({
+        field,
+        value: present ? "yes" : "no",
+        source: present ? `Condition ${name}` : `Condition ${name} (refuted)`,
+      });
+    }
+  }
+
+  return { findings, warnings };
+}
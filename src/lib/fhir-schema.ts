@@ -0,0 +1,160 @@
+import * as z from "zod";
+
+/**
+ * Local zod schemas for the parts of FHIR R4 this app reads and writes. They
+ * check the elements we rely on and let everything else through, so real EHR
+ * bundles with extra elements still parse.
+ */
+
+export const CODE_SYSTEMS = {
+  loinc: "http://loinc.org",
+  snomed: "http://snomed.info/sct",
+  icd10: "http://hl7.org/fhir/sid/icd-10",
+  icd10cm: "http://hl7.org/fhir/sid/icd-10-cm",
+  ucum: "http://unitsofmeasure.org",
+  riskProbability: "http://terminology.hl7.org/CodeSystem/risk-probability",
+  conditionClinical: "http://terminology.hl7.org/CodeSystem/condition-clinical",
+  conditionVerification: "http://terminology.hl7.org/CodeSystem/condition-ver-status",
+  administrativeGender: "http://hl7.org/fhir/administrative-gender",
+  observationCategory: "http://terminology.hl7.org/CodeSystem/observation-category",
+} as const;
+
+const fhirDateTime = z
+  .string()
+  .regex(/^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?)?)?$/, "Invalid FHIR dateTime");
+
+/** Shared by Observation and RiskAssessment. */
+const statusSchema = z.enum([
+  "registered",
+  "preliminary",
+  "final",
+  "amended",
+  "corrected",
+  "cancelled",
+  "entered-in-error",
+  "unknown",
+]);
+
+export const codingSchema = z
+  .object({ system: z.string().optional(), code: z.string().optional(), display: z.string().optional() })
+  .passthrough();
+
+export const codeableConceptSchema = z
+  .object({ coding: z.array(codingSchema).optional(), text: z.string().optional() })
+  .passthrough();
+
+export const quantitySchema = z
+  .object({
+    value: z.number().optional(),
+    unit: z.string().optional(),
+    system: z.string().optional(),
+    code: z.string().optional(),
+  })
+  .passthrough();
+
+export const referenceSchema = z
+  .object({
+    reference: z.string().optional(),
+    display: z.string().optional(),
+    identifier: z.object({ system: z.string().optional(), value: z.string().optional() }).passthrough().optional(),
+  })
+  .passthrough();
+
+export const patientSchema = z
+  .object({
+    resourceType: z.literal("Patient"),
+    id: z.string().optional(),
+    gender: z.enum(["male", "female", "other", "unknown"]).optional(),
+    birthDate: z
+      .string()
+      .regex(/^\d{4}(-\d{2}(-\d{2})?)?$/, "Invalid FHIR date")
+      .optional(),
+  })
+  .passthrough();
+
+export const observationSchema = z
+  .object({
+    resourceType: z.literal("Observation"),
+    id: z.string().optional(),
+    status: statusSchema,
+    category: z.array(codeableConceptSchema).optional(),
+    code: codeableConceptSchema,
+    subject: referenceSchema.optional(),
+    effectiveDateTime: fhirDateTime.optional(),
+    issued: z.string().optional(),
+    valueQuantity: quantitySchema.optional(),
+    valueCodeableConcept: codeableConceptSchema.optional(),
+    dataAbsentReason: codeableConceptSchema.optional(),
+  })
+  .passthrough();
+
+export const conditionSchema = z
+  .object({
+    resourceType: z.literal("Condition"),
+    id: z.string().optional(),
+    clinicalStatus: codeableConceptSchema.optional(),
+    verificationStatus: codeableConceptSchema.optional(),
+    code: codeableConceptSchema.optional(),
+    subject: referenceSchema,
+  })
+  .passthrough();
+
+/** Entries of any other resource type are kept but not inspected. */
+const otherResourceSchema = z.object({ resourceType: z.string() }).passthrough();
+
+export const bundleSchema = z
+  .object({
+    resourceType: z.literal("Bundle"),
+    type: z.enum([
+      "document",
+      "message",
+      "transaction",
+      "transaction-response",
+      "batch",
+      "batch-response",
+      "history",
+      "searchset",
+      "collection",
+    ]),
+    entry: z
+      .array(
+        z
+          .object({
+            fullUrl: z.string().optional(),
+            resource: z.union([patientSchema, observationSchema, conditionSchema, otherResourceSchema]).optional(),
+          })
+          .passthrough(),
+      )
+      .optional(),
+  })
+  .passthrough();
+
+export const riskAssessmentSchema = z.object({
+  resourceType: z.literal("RiskAssessment"),
+  id: z.string().min(1),
+  contained: z.array(z.union([observationSchema, conditionSchema])).optional(),
+  status: statusSchema,
+  method: codeableConceptSchema.optional(),
+  code: codeableConceptSchema.optional(),
+  subject: referenceSchema,
+  occurrenceDateTime: fhirDateTime,
+  basis: z.array(referenceSchema).optional(),
+  prediction: z
+    .array(
+      z.object({
+        outcome: codeableConceptSchema,
+        probabilityDecimal: z.number().min(0).max(1).optional(),
+        qualitativeRisk: codeableConceptSchema.optional(),
+      }),
+    )
+    .min(1),
+  note: z.array(z.object({ text: z.string() })).optional(),
+});
+
+export type Coding = z.infer<typeof codingSchema>;
+export type CodeableConcept = z.infer<typeof codeableConceptSchema>;
+export type FhirPatient = z.infer<typeof patientSchema>;
+export type FhirObservation = z.infer<typeof observationSchema>;
+export type FhirCondition = z.infer<typeof conditionSchema>;
+export type FhirBundle = z.infer<typeof bundleSchema>;
+export type RiskAssessment = z.infer<typeof riskAssessmentSchema>;
@@ -0,0 +1,72 @@
+import type { FormData } from "@/lib/prediction-schema";
+import { REFERENCE_THRESHOLDS, referenceBand, type ReferenceBand, type ReferenceMeasure } from "@/lib/reference-ranges";
+import type { RiskTier } from "@/lib/risk-tier";
+
+/** When the glucose sample was taken; it decides which thresholds apply. */
+export type GlucoseContext = "fasting" | "after-meal";
+
+export interface GuidelineFinding {
+  measure: ReferenceMeasure;
+  label: string;
+  value: number;
+  unit: string;
+  band: ReferenceBand;
+}
+
+export interface GuidelineAssessment {
+  /** The most severe band any single measure falls in. */
+  band: ReferenceBand;
+  findings: GuidelineFinding[];
+}
+
+const BAND_SEVERITY: Record<ReferenceBand, number> = { normal: 0, "pre-diabetes": 1, diabetes: 2 };
+
+const finding = (measure: ReferenceMeasure, label: string, value: number): GuidelineFinding => ({
+  measure,
+  label,
+  value,
+  unit: REFERENCE_THRESHOLDS[measure].unit,
+  band: referenceBand(measure, value),
+});
+
+/**
+ * Classifies the entered labs against the ADA diagnostic thresholds in the
+ * reference-ranges table, independently of any model. A single value in the
+ * diabetes band is enough here; a clinical diagnosis still needs a repeat test.
+ */
+export function assessAgainstGuidelines(input: FormData, glucoseContext: GlucoseContext): GuidelineAssessment {
+  const findings = [
+    finding("hba1c", "HbA1c", input.hba1c),
+    glucoseContext === "fasting"
+      ? finding("fastingGlucose", "Fasting glucose", input.bloodGlucose)
+      : finding("afterMealGlucose", "Post-meal / random glucose", input.bloodGlucose),
+  ];
+  const band = findings.reduce<ReferenceBand>(
+    (worst, { band }) => (BAND_SEVERITY[band] > BAND_SEVERITY[worst] ? band : worst),
+    "normal",
+  );
+
+  return { band, findings };
+}
+
+const TIER_BAND: Record<Exclude<RiskTier, "indeterminate">, ReferenceBand> = {
+  normal: "normal",
+  "pre-diabetic": "pre-diabetes",
+  diabetic: "diabetes",
+};
+
+export type GuidelineAgreement = "agree" | "partial" | "disagree" | "model-borderline";
+
+/**
+ * Compares the guideline band with the model's tier. Differing on diabetes
+ * itself is a disagreement; differing only between normal and pre-diabetes is
+ * partial agreement.
+ */
+export function compareWithModel(band: ReferenceBand, tier: RiskTier): GuidelineAgreement {
+  if (tier === "indeterminate") return "model-borderline";
+
+  const modelBand = TIER_BAND[tier];
+  if (modelBand === band) return "agree";
+  if (modelBand === "diabetes" || band === "diabetes") return "disagree";
+  return "partial";
+}
@@ -0,0 +1,225 @@
+import { OBSERVATION_CODES } from "@/lib/fhir-codes";
+import { labValueInFormUnit, type LabField } from "@/lib/units";
+
+/** An HbA1c or glucose result from an OBX segment, converted to the form's unit. */
+export interface LabFinding {
+  field: LabField;
+  value: number;
+  /** The result as the lab reported it, e.g. `53 mmol/mol`. */
+  reported: string;
+  /** ISO 8601 date (and time, when the message has one) the specimen was observed. */
+  observedAt?: string;
+  source: string;
+}
+
+export interface OruImportResult {
+  /** Patient name from PID-5, for the user to check they have the right message. */
+  patient?: string;
+  findings: LabFinding[];
+  warnings: string[];
+}
+
+/** The input isn't an HL7 v2 ORU^R01 message this app can read. */
+export class Hl7ParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "Hl7ParseError";
+  }
+}
+
+interface Delimiters {
+  field: string;
+  component: string;
+  repetition: string;
+  escape: string;
+  subcomponent: string;
+}
+
+interface Segment {
+  name: string;
+  /** `fields[n]` is field n of the segment, numbered as in the HL7 spec (MSH included). */
+  fields: string[];
+}
+
+/** Coding systems in OBX-3 that mean LOINC. */
+const LOINC_SYSTEMS = ["LN", "LOINC"];
+
+/** OBX-11 statuses for results that were withdrawn or never produced. */
+const WITHDRAWN_STATUSES: Record<string, string> = {
+  D: "deleted",
+  W: "posted in error",
+  X: "could not be obtained",
+};
+const UNCONFIRMED_STATUSES: Record<string, string> = {
+  P: "preliminary",
+  R: "not yet verified",
+  I: "pending",
+};
+
+const LAB_LABELS: Record<LabField, string> = { hba1c: "HbA1c", bloodGlucose: "glucose" };
+const LAB_TEXT_PATTERNS: Record<LabField, RegExp> = {
+  hba1c: /a1c|glyc(?:at|osyl)ated\s+h(?:a)?emoglobin/i,
+  bloodGlucose: /glucose/i,
+};
+
+function splitSegments(text: string): { segments: Segment[]; delimiters: Delimiters } {
+  // Strip MLLP framing (VT … FS CR) left over from a capture of the wire format; trim() drops the VT.
+  const lines = text
+    .split("\x1c")
+    .join("")
+    .split(/\r\n|\r|\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const header = lines[0];
+  if (!header?.startsWith("MSH") || header.length < 8) {
+    throw new Hl7ParseError("This is not an HL7 v2 message: it must start with an MSH segment.");
+  }
+  const delimiters: Delimiters = {
+    field: header[3],
+    component: header[4],
+    repetition: header[5],
+    escape: header[6],
+    subcomponent: header[7],
+  };
+  const segments = lines.map((line) => {
+    const parts = line.split(delimiters.field);
+    // MSH-1 is the field separator itself, so MSH's fields are shifted by one.
+    return { name: parts[0], fields: parts[0] === "MSH" ? ["MSH", delimiters.field, ...parts.slice(1)] : parts };
+  });
+  return { segments, delimiters };
+}
+
+/** Replaces the standard escape sequences (`\F\`, `\S\`, …) with the characters they stand for. */
+function unescape(value: string, delimiters: Delimiters) {
+  const { escape } = delimiters;
+  if (!value.includes(escape)) return value;
+  const replacements: Record<string, string> = {
+    F: delimiters.field,
+    S: delimiters.component,
+    R: delimiters.repetition,
+    T: delimiters.subcomponent,
+    E: escape,
+  };
+  const pattern = new RegExp(`\\${escape}([FSRTE])\\${escape}`, "g");
+  return value.replace(pattern, (_match, code: string) => replacements[code]);
+}
+
+/** The components of the first repetition of a field, unescaped. */
+const components = (field: string | undefined, delimiters: Delimiters) =>
+  (field ?? "").split(delimiters.repetition)[0].split(delimiters.component).map((part) => unescape(part, delimiters));
+
+/** HL7 TS (`YYYYMMDD[HHMM[SS]][±ZZZZ]`) to ISO 8601; `undefined` when it isn't a timestamp. */
+function hl7Timestamp(value: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(?:(\d{2}))?)?(?:\.\d+)?([+-]\d{4})?$/);
+  if (!match) return undefined;
+  const [, year, month, day, hour, minute, second, zone] = match;
+  if (!hour) return `${year}-${month}-${day}`;
+  const offset = zone ? `${zone.slice(0, 3)}:${zone.slice(3)}` : "";
+  return `${year}-${month}-${day}T${hour}:${minute}:${second ?? "00"}${offset}`;
+}
+
+/** Which lab OBX-3 identifies: the LOINC code in its primary or alternate triplet. */
+function labField(identifier: string[]): { field?: LabField; code?: string } {
+  for (const offset of [0, 3]) {
+    const [code, , system] = identifier.slice(offset, offset + 3);
+    if (!code || !LOINC_SYSTEMS.includes(system?.toUpperCase())) continue;
+    for (const field of ["hba1c", "bloodGlucose"] as const) {
+      if ((OBSERVATION_CODES[field] as readonly string[]).includes(code)) return { field, code };
+    }
+  }
+  return {};
+}
+
+/** The numeric result of an NM or SN OBX-5, or an explanation of why there isn't one. */
+function numericValue(valueType: string, value: string[]): number | string {
+  if (valueType === "SN") {
+    // Structured numeric: comparator ^ number. Only exact results ("" or "=") can fill the form.
+    const [comparator, number, separator] = value;
+    if ((comparator && comparator !== "=") || separator) return `a range or limit ("${value.join("")}")`;
+    return Number.isFinite(Number(number)) && number !== "" ? Number(number) : `"${value.join("")}"`;
+  }
+  const [number] = value;
+  return number?.trim() !== "" && Number.isFinite(Number(number)) ? Number(number) : `"${number}"`;
+}
+
+/**
+ * Reads HbA1c and glucose results from an HL7 v2 ORU^R01 message. Each OBX
+ * with a known LOINC code becomes a finding in the form's unit; when a test
+ * appears more than once the most recent observation wins, and on a tie the
+ * later segment (e.g. a correction). Results that were withdrawn, aren't
+ * numeric or use an unknown unit become warnings instead.
+ */
+export function readOruMessage(text: string): OruImportResult {
+  const { segments, delimiters } = splitSegments(text);
+  const messageType = components(segments[0].fields[9], delimiters).slice(0, 2).join("^");
+  if (messageType !== "ORU^R01") {
+    throw new Hl7ParseError(`This is an ${messageType || "untyped"} message; only lab results (ORU^R01) can be read.`);
+  }
+
+  const pids = segments.filter((segment) => segment.name === "PID");
+  if (pids.length > 1) {
+    throw new Hl7ParseError("The message contains results for more than one patient; import one patient at a time.");
+  }
+  const [family, given] = components(pids[0]?.fields[5], delimiters);
+  const patient = [given, family].filter(Boolean).join(" ") || undefined;
+
+  const candidates: (LabFinding & { order: number })[] = [];
+  const warnings: string[] = [];
+  let requestedAt: string | undefined;
+
+  segments.forEach((segment, order) => {
+    if (segment.name === "OBR") requestedAt = hl7Timestamp(components(segment.fields[7], delimiters)[0]);
+    if (segment.name !== "OBX") return;
+
+    const identifier = components(segment.fields[3], delimiters);
+    const { field, code } = labField(identifier);
+    const name = identifier[1] || identifier[0];
+    if (!field) {
+      const lookalike = (["hba1c", "bloodGlucose"] as const).find((lab) => LAB_TEXT_PATTERNS[lab].test(name));
+      if (lookalike) {
+        warnings.push(`OBX "${name}" looks like ${LAB_LABELS[lookalike]} but has no recognised LOINC code; skipped.`);
+      }
+      return;
+    }
+
+    const status = segment.fields[11] ?? "";
+    const label = `OBX ${code} ${name}`;
+    if (WITHDRAWN_STATUSES[status]) {
+      warnings.push(`${label} was ${WITHDRAWN_STATUSES[status]}; skipped.`);
+      return;
+    }
+    const value = numericValue(segment.fields[2] ?? "", components(segment.fields[5], delimiters));
+    if (typeof value === "string") {
+      warnings.push(`${label} has no exact numeric result: ${value}; skipped.`);
+      return;
+    }
+    const unit = components(segment.fields[6], delimiters)[0] ?? "";
+    const converted = labValueInFormUnit(field, value, unit);
+    if (converted === undefined) {
+      warnings.push(`${label} has a unit this form can't convert ("${unit}").`);
+      return;
+    }
+    if (UNCONFIRMED_STATUSES[status]) warnings.push(`${label} is ${UNCONFIRMED_STATUSES[status]}.`);
+
+    const observedAt = hl7Timestamp(components(segment.fields[14], delimiters)[0]) ?? requestedAt;
+    candidates.push({
+      field,
+      value: converted,
+      reported: `${value} ${unit}`.trim(),
+      observedAt,
+      source: observedAt ? `${label} on ${observedAt.slice(0, 10)}` : label,
+      order,
+    });
+  });
+
+  const findings = (["hba1c", "bloodGlucose"] as const).flatMap((field) => {
+    const latest = candidates
+      .filter((candidate) => candidate.field === field)
+      .sort((a, b) => (b.observedAt ?? "").localeCompare(a.observedAt ?? "") || b.order - a.order)[0];
+    if (!latest) return [];
+    const { order: _order, ...finding } = latest;
+    return [finding];
+  });
+
+  return { patient, findings, warnings };
+}
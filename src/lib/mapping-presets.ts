@@ -0,0 +1,58 @@
+import type { ColumnMapping } from "@/lib/column-mapping";
+
+const PRESETS_STORAGE_KEY = "column-mapping-presets";
+
+export interface MappingPreset {
+  name: string;
+  mapping: ColumnMapping;
+  savedAt: string;
+}
+
+const listeners = new Set<() => void>();
+let presets: MappingPreset[] = loadPresets();
+
+function loadPresets(): MappingPreset[] {
+  try {
+    const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storePresets(next: MappingPreset[]) {
+  presets = next;
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  listeners.forEach((listener) => listener());
+}
+
+export function getMappingPresets(): MappingPreset[] {
+  return presets;
+}
+
+/** Saves `mapping` under `name`, replacing any preset with the same name. */
+export function saveMappingPreset(name: string, mapping: ColumnMapping) {
+  const preset = { name, mapping, savedAt: new Date().toISOString() };
+  storePresets([...presets.filter((existing) => existing.name !== name), preset]);
+}
+
+export function deleteMappingPreset(name: string) {
+  storePresets(presets.filter((preset) => preset.name !== name));
+}
+
+export function subscribeToMappingPresets(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** The most recently saved preset whose columns all appear in `headers`, if any. */
+export function findMatchingPreset(headers: string[]): MappingPreset | undefined {
+  return [...presets]
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt))
+    .find((preset) => {
+      const columns = Object.values(preset.mapping.columns);
+      return columns.length > 0 && columns.every((header) => headers.includes(header));
+    });
+}
@@ -0,0 +1,159 @@
+import { predictionRequestSchema, type PredictionRequest } from "@/lib/prediction-schema";
+
+const SETTINGS_STORAGE_KEY = "mock-backend-settings";
+export const MOCK_MODEL_VERSION = "mock-rules-1";
+
+export type MockFailureMode = "none" | "network" | "timeout" | "server-error" | "validation-error" | "malformed";
+
+export interface MockBackendSettings {
+  enabled: boolean;
+  latencyMs: number;
+  failureMode: MockFailureMode;
+  /** Share of requests, in [0, 1], that fail with `failureMode`. */
+  failureRate: number;
+}
+
+const DEFAULT_SETTINGS: MockBackendSettings = {
+  enabled: import.meta.env.VITE_USE_MOCK_BACKEND === "true",
+  latencyMs: 600,
+  failureMode: "none",
+  failureRate: 1,
+};
+
+const listeners = new Set<() => void>();
+let settings: MockBackendSettings = loadSettings();
+
+function loadSettings(): MockBackendSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function getMockBackendSettings(): MockBackendSettings {
+  return settings;
+}
+
+export function updateMockBackendSettings(patch: Partial<MockBackendSettings>) {
+  settings = { ...settings, ...patch };
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeToMockBackendSettings(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const SMOKING_POINTS: Record<string, number> = {
+  current: 0.5,
+  former: 0.25,
+  ever: 0.25,
+  not_current: 0.25,
+};
+
+/**
+ * Deterministic stand-in for the model: points for each glycemic band from the
+ * reference ranges plus smaller points for risk factors. 4.5 points is the
+ * decision boundary, so an HbA1c or glucose in the diabetic band is enough on
+ * its own, while two pre-diabetic values need one more risk factor.
+ */
+export function scoreMockPrediction(request: PredictionRequest) {
+  let points = 0;
+  points += request.HbA1c_level >= 6.5 ? 5 : request.HbA1c_level >= 5.7 ? 2 : 0;
+  points += request.blood_glucose_level >= 200 ? 5 : request.blood_glucose_level >= 140 ? 2 : 0;
+  points += request.bmi >= 30 ? 1 : request.bmi >= 25 ? 0.5 : 0;
+  points += request.age >= 65 ? 1.5 : request.age >= 45 ? 1 : 0;
+  points += request.hypertension + request.heart_disease;
+  points += SMOKING_POINTS[request.smoking_history] ?? 0;
+
+  const probability = 1 / (1 + Math.exp(-(points - 4.5)));
+  return { points, probability: Math.round(probability * 1000) / 1000 };
+}
+
+const jsonResponse = (status: number, body: unknown) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const abortError = () => new DOMException("The operation was aborted.", "AbortError");
+
+const sleep = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(abortError());
+      },
+      { once: true },
+    );
+  });
+
+async function injectFailure(mode: MockFailureMode, signal?: AbortSignal | null): Promise<Response> {
+  switch (mode) {
+    case "network":
+      throw new TypeError("Failed to fetch (mock network failure)");
+    case "timeout":
+      // Never answers; only the caller's abort ends the request.
+      return new Promise((_, reject) => signal?.addEventListener("abort", () => reject(abortError()), { once: true }));
+    case "server-error":
+      return jsonResponse(503, { detail: "Mock backend unavailable" });
+    case "validation-error":
+      return jsonResponse(422, {
+        detail: [{ loc: ["body", "HbA1c_level"], msg: "Mock validation failure", type: "value_error" }],
+      });
+    case "malformed":
+      return jsonResponse(200, { result: "maybe" });
+    default:
+      throw new Error(`Unknown failure mode ${mode}`);
+  }
+}
+
+/**
+ * A `fetch` replacement implementing the backend's `POST /predict` contract
+ * in the browser, with the configured latency and failure injection.
+ */
+export async function mockFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const { latencyMs, failureMode, failureRate } = settings;
+  await sleep(latencyMs, init.signal);
+
+  const url = new URL(input instanceof Request ? input.url : String(input), window.location.href);
+  if (!url.pathname.endsWith("/predict") || (init.method ?? "GET").toUpperCase() !== "POST") {
+    return jsonResponse(404, { detail: "Not Found" });
+  }
+
+  if (failureMode !== "none" && Math.random() < failureRate) {
+    return injectFailure(failureMode, init.signal);
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(String(init.body));
+  } catch {
+    return jsonResponse(422, { detail: [{ loc: ["body"], msg: "Invalid JSON body", type: "json_invalid" }] });
+  }
+
+  const parsed = predictionRequestSchema.safeParse(payload);
+  if (!parsed.success) {
+    return jsonResponse(422, {
+      detail: parsed.error.issues.map((issue) => ({
+        loc: ["body", ...issue.path],
+        msg: issue.message,
+        type: issue.code,
+      })),
+    });
+  }
+
+  const { probability } = scoreMockPrediction(parsed.data);
+  return jsonResponse(200, {
+    final_result: probability >= 0.5 ? "Diabetic" : "Non-Diabetic",
+    probability,
+    model_version: MOCK_MODEL_VERSION,
+  });
+}
@@ -0,0 +1,67 @@
+import { getAll, getOne, put, remove, STORES } from "@/lib/db";
+
+const ACTIVE_PROFILE_STORAGE_KEY = "active-patient-profile";
+
+export type ProfileSex = "male" | "female" | "other";
+
+export interface PatientProfile {
+  id: string;
+  /** Full name or a pseudonymous identifier. */
+  name: string;
+  /** `YYYY-MM-DD`. */
+  dateOfBirth: string;
+  sex: ProfileSex;
+  createdAt: string;
+}
+
+export type NewPatientProfile = Pick<PatientProfile, "name" | "dateOfBirth" | "sex">;
+
+export function createProfile(profile: NewPatientProfile): Promise<PatientProfile> {
+  return put<PatientProfile>(STORES.profiles, {
+    ...profile,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+  });
+}
+
+export async function listProfiles(): Promise<PatientProfile[]> {
+  const profiles = await getAll<PatientProfile>(STORES.profiles);
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export const getProfile = (id: string) => getOne<PatientProfile>(STORES.profiles, id);
+
+export const deleteProfile = (id: string) => remove(STORES.profiles, id);
+
+/** Age in whole years on `on`. */
+export function ageFromDateOfBirth(dateOfBirth: string, on = new Date()): number {
+  const [year, month, day] = dateOfBirth.split("-").map(Number);
+  const hadBirthday = on.getMonth() + 1 > month || (on.getMonth() + 1 === month && on.getDate() >= day);
+  return on.getFullYear() - year - (hadBirthday ? 0 : 1);
+}
+
+// The active profile is per browser, not per record, so it lives in localStorage.
+const listeners = new Set<() => void>();
+let activeProfileId: string | null = localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY);
+
+export function getActiveProfileId(): string | null {
+  return activeProfileId;
+}
+
+/** Switches the active profile; `null` means anonymous entry. */
+export function setActiveProfileId(id: string | null) {
+  activeProfileId = id;
+  if (id) {
+    localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_PROFILE_STORAGE_KEY);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeToActiveProfile(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
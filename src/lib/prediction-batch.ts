@@ -0,0 +1,54 @@
+import { mapWithConcurrency } from "@/lib/concurrency";
+import { predictOffline } from "@/lib/fallback-model";
+import {
+  isUnreachableError,
+  PredictionAbortedError,
+  predictCached,
+  type Prediction,
+} from "@/lib/prediction-client";
+import type { FormData } from "@/lib/prediction-schema";
+
+export type BatchOutcome = { ok: true; prediction: Prediction } | { ok: false; error: Error };
+
+export interface PredictManyOptions {
+  signal?: AbortSignal;
+  /** Requests in flight at once. */
+  concurrency?: number;
+  /** Called after each distinct input settles. */
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Predicts many inputs at once: identical inputs are requested once, results
+ * already cached are reused, and the rest go out a few at a time. Inputs the
+ * backend can't be reached for are estimated offline; other failures are
+ * reported per input instead of failing the whole batch.
+ */
+export async function predictMany(inputs: FormData[], options: PredictManyOptions = {}): Promise<BatchOutcome[]> {
+  const { signal, concurrency = 6, onProgress } = options;
+  const distinct = new Map<string, FormData>();
+  for (const input of inputs) {
+    distinct.set(JSON.stringify(input), input);
+  }
+
+  let completed = 0;
+  const entries = [...distinct.entries()];
+  const settled = await mapWithConcurrency(entries, concurrency, async ([, input]): Promise<BatchOutcome> => {
+    if (signal?.aborted) throw new PredictionAbortedError();
+
+    let outcome: BatchOutcome;
+    try {
+      outcome = { ok: true, prediction: await predictCached(input, { signal, maxAttempts: 1 }) };
+    } catch (error) {
+      if (error instanceof PredictionAbortedError) throw error;
+      outcome = isUnreachableError(error)
+        ? { ok: true, prediction: predictOffline(input) }
+        : { ok: false, error: error as Error };
+    }
+    onProgress?.(++completed, entries.length);
+    return outcome;
+  });
+
+  const byKey = new Map(entries.map(([key], index) => [key, settled[index]]));
+  return inputs.map((input) => byKey.get(JSON.stringify(input)));
+}
@@ -0,0 +1,414 @@
+import { CircuitBreaker } from "@/lib/circuit-breaker";
+import { getMockBackendSettings, mockFetch } from "@/lib/mock-prediction-server";
+import {
+  backendValidationErrorSchema,
+  predictionResponseSchema,
+  type FormData,
+  type PredictionLabel,
+  type PredictionRequest,
+  type PredictionResponse,
+} from "@/lib/prediction-schema";
+
+const DEFAULT_API_BASE_URL = "http://127.0.0.1:8000";
+const API_BASE_URL_STORAGE_KEY = "prediction-api-base-url";
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8_000;
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+/** Shared across callers so every page backs off from a backend that keeps failing. */
+const predictionCircuit = new CircuitBreaker(5, 30_000);
+
+const MAX_CACHED_PREDICTIONS = 2_000;
+const predictionCache = new Map<string, Prediction>();
+
+declare global {
+  interface Window {
+    /** Set by the hosting page to point a prebuilt bundle at another backend. */
+    __PREDICTION_API_URL__?: string;
+  }
+}
+
+export type { PredictionRequest, PredictionResponse };
+
+export interface ModelPrediction {
+  model: string;
+  label: PredictionLabel;
+  probability?: number;
+}
+
+export interface FeatureContribution {
+  /** Form field name, or the backend's name for features the form doesn't have. */
+  feature: keyof FormData | string;
+  /** Push towards (positive) or away from (negative) a diabetes prediction, in log-odds. */
+  value: number;
+}
+
+/** A prediction normalized from whichever response shape the backend sent. */
+export interface Prediction {
+  label: PredictionLabel;
+  /** Probability of diabetes in [0, 1], when the backend reports one. */
+  probability?: number;
+  models: ModelPrediction[];
+  modelVersion?: string;
+  /** Why the model decided as it did, when the backend explains its predictions. */
+  contributions?: FeatureContribution[];
+  /** Three-tier classification, when the backend reports one. */
+  tier?: "normal" | "pre-diabetic" | "diabetic";
+  /** `"offline"` when estimated in the browser by the fallback model. */
+  source: "server" | "offline";
+}
+
+/** Which form field each backend field was mapped from; used to report backend validation errors. */
+export const FORM_FIELD_BY_BACKEND_FIELD: Record<keyof PredictionRequest, keyof FormData> = {
+  gender: "gender",
+  age: "age",
+  hypertension: "hypertension",
+  heart_disease: "heartDisease",
+  smoking_history: "smokingHistory",
+  bmi: "bmi",
+  HbA1c_level: "hba1c",
+  blood_glucose_level: "bloodGlucose",
+};
+
+export interface BackendValidationIssue {
+  /** The form field the issue refers to, when it maps onto one. */
+  field?: keyof FormData;
+  message: string;
+}
+
+/** The request never reached the backend, or no response came back. */
+export class PredictionNetworkError extends Error {
+  constructor(readonly cause: unknown) {
+    super("Could not reach the prediction service");
+    this.name = "PredictionNetworkError";
+  }
+}
+
+/** No response arrived within the configured timeout. */
+export class PredictionTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`The prediction service did not respond within ${Math.round(timeoutMs / 1000)} seconds`);
+    this.name = "PredictionTimeoutError";
+  }
+}
+
+/** The caller cancelled the request, e.g. because a newer one replaced it. */
+export class PredictionAbortedError extends Error {
+  constructor() {
+    super("Prediction request was cancelled");
+    this.name = "PredictionAbortedError";
+  }
+}
+
+/** Requests are paused after repeated failures; `retryAt` is when they resume. */
+export class CircuitOpenError extends Error {
+  constructor(readonly retryAt: number) {
+    super("Prediction requests are paused after repeated failures");
+    this.name = "CircuitOpenError";
+  }
+}
+
+/** The backend answered with a non-2xx status. */
+export class PredictionHttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: unknown,
+  ) {
+    super(`Prediction request failed with status ${status}`);
+    this.name = "PredictionHttpError";
+  }
+}
+
+/** The backend answered 2xx but the body matched none of the known shapes. */
+export class UnexpectedResponseError extends Error {
+  constructor(
+    message: string,
+    readonly body: unknown,
+  ) {
+    super(message);
+    this.name = "UnexpectedResponseError";
+  }
+}
+
+const trimTrailingSlash = (url: string) => url.replace(/\/+$/, "");
+
+/**
+ * Resolves the backend base URL. A user override saved in localStorage wins,
+ * then a `window.__PREDICTION_API_URL__` set by the host page, then the
+ * build-time `VITE_PREDICTION_API_URL`, then the local development server.
+ */
+export function getPredictionApiBaseUrl(): string {
+  const stored = typeof localStorage !== "undefined" ? localStorage.getItem(API_BASE_URL_STORAGE_KEY) : null;
+  const url =
+    stored ||
+    (typeof window !== "undefined" ? window.__PREDICTION_API_URL__ : undefined) ||
+    import.meta.env.VITE_PREDICTION_API_URL ||
+    DEFAULT_API_BASE_URL;
+
+  return trimTrailingSlash(url);
+}
+
+/** Saves a runtime override for the backend base URL; pass `null` to clear it. */
+export function setPredictionApiBaseUrl(url: string | null) {
+  if (url) {
+    localStorage.setItem(API_BASE_URL_STORAGE_KEY, trimTrailingSlash(url.trim()));
+  } else {
+    localStorage.removeItem(API_BASE_URL_STORAGE_KEY);
+  }
+  resetPredictionCircuit();
+}
+
+/** Closes the circuit breaker; failures against a previous backend say nothing about a new one. */
+export function resetPredictionCircuit() {
+  predictionCircuit.reset();
+}
+
+/** Maps the camelCase form values onto the backend's field names and encodings. */
+export function toPredictionRequest(data: FormData): PredictionRequest {
+  return {
+    gender: data.gender,
+    age: Number(data.age),
+    hypertension: data.hypertension === "yes" ? 1 : 0,
+    heart_disease: data.heartDisease === "yes" ? 1 : 0,
+    smoking_history: data.smokingHistory,
+    bmi: Number(data.bmi),
+    HbA1c_level: Number(data.hba1c),
+    blood_glucose_level: Number(data.bloodGlucose),
+  };
+}
+
+/** Extracts field-level issues from a FastAPI-style 422 body, or `[]` if it has another shape. */
+export function parseValidationIssues(body: unknown): BackendValidationIssue[] {
+  const parsed = backendValidationErrorSchema.safeParse(body);
+  if (!parsed.success) return [];
+
+  return parsed.data.detail.map(({ loc, msg }) => {
+    const backendField = loc[loc.length - 1];
+    const field =
+      typeof backendField === "string" ? FORM_FIELD_BY_BACKEND_FIELD[backendField as keyof PredictionRequest] : undefined;
+    return { field, message: msg };
+  });
+}
+
+const readBody = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  if (!text) return null;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Validates a raw `/predict` body and folds the known backend variants into a
+ * single `Prediction`. Throws `UnexpectedResponseError` rather than guessing
+ * when no label can be derived.
+ */
+export function adaptPredictionResponse(body: unknown): Prediction {
+  const parsed = predictionResponseSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new UnexpectedResponseError(parsed.error.issues[0]?.message ?? "Invalid prediction response", body);
+  }
+
+  const response = parsed.data;
+  const modelOutputs = response.models ?? response.model_predictions ?? response.individual_predictions ?? {};
+  const models: ModelPrediction[] = Object.entries(modelOutputs).map(([model, output]) =>
+    typeof output === "string"
+      ? { model, label: output }
+      : { model, label: output.prediction, probability: output.probability },
+  );
+  const probability = response.probability ?? response.diabetes_probability;
+
+  let label = response.final_result ?? response.prediction;
+  if (!label && probability !== undefined) {
+    label = probability >= 0.5 ? "diabetic" : "non-diabetic";
+  }
+  if (!label && models.length > 0) {
+    const positive = models.filter((model) => model.label === "diabetic").length;
+    label = positive * 2 >= models.length ? "diabetic" : "non-diabetic";
+  }
+  if (!label) {
+    throw new UnexpectedResponseError("Response did not include a prediction", body);
+  }
+
+  const explanation = response.feature_contributions ?? response.shap_values ?? response.explanations;
+  const contributions = explanation
+    ? Object.entries(explanation).map(([feature, value]) => ({
+        feature: FORM_FIELD_BY_BACKEND_FIELD[feature as keyof PredictionRequest] ?? feature,
+        value,
+      }))
+    : undefined;
+
+  return {
+    label,
+    probability,
+    models,
+    contributions,
+    modelVersion: response.model_version,
+    tier: response.risk_tier,
+    source: "server",
+  };
+}
+
+export interface PredictOptions {
+  /** Aborts the request and any pending retries. */
+  signal?: AbortSignal;
+  /** Per-attempt timeout. */
+  timeoutMs?: number;
+  maxAttempts?: number;
+  /** Called before each retry with the attempt about to run and the backoff delay. */
+  onRetry?: (attempt: number, delayMs: number, error: Error) => void;
+}
+
+const isTransient = (error: unknown) =>
+  error instanceof PredictionNetworkError ||
+  error instanceof PredictionTimeoutError ||
+  (error instanceof PredictionHttpError && RETRYABLE_STATUSES.includes(error.status));
+
+/** The backend could not be reached at all, as opposed to answering with something we can't use. */
+export const isUnreachableError = (error: unknown) =>
+  error instanceof PredictionNetworkError ||
+  error instanceof PredictionTimeoutError ||
+  error instanceof CircuitOpenError ||
+  (error instanceof PredictionHttpError && error.status >= 502);
+
+const backoffDelay = (attempt: number) => {
+  const exponential = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(exponential * (0.8 + Math.random() * 0.4));
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new PredictionAbortedError());
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new PredictionAbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/** Waits for `promise`, giving up with `PredictionAbortedError` if the signal fires first. */
+const untilSettled = (promise: Promise<void>, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new PredictionAbortedError());
+
+    const onAbort = () => reject(new PredictionAbortedError());
+    signal?.addEventListener("abort", onAbort, { once: true });
+    promise.then(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    });
+  });
+
+async function requestPrediction(data: FormData, timeoutMs: number, signal?: AbortSignal): Promise<Prediction> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  let response: Response;
+  let body: unknown;
+  try {
+    const transport = getMockBackendSettings().enabled ? mockFetch : fetch;
+    response = await transport(`${getPredictionApiBaseUrl()}/predict`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(toPredictionRequest(data)),
+      signal: controller.signal,
+    });
+    body = await readBody(response);
+  } catch (error) {
+    if (signal?.aborted) throw new PredictionAbortedError();
+    if (timedOut) throw new PredictionTimeoutError(timeoutMs);
+    throw new PredictionNetworkError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+
+  if (!response.ok) {
+    throw new PredictionHttpError(response.status, body);
+  }
+
+  return adaptPredictionResponse(body);
+}
+
+/**
+ * Requests a prediction, retrying transient failures (network errors,
+ * timeouts, 408/429/502/503/504) with exponential backoff. Consecutive
+ * transient failures trip a shared circuit breaker, after which calls fail
+ * fast with `CircuitOpenError` until the cooldown has passed. The first call
+ * after the cooldown probes the service; concurrent calls wait for its result.
+ */
+export async function predict(data: FormData, options: PredictOptions = {}): Promise<Prediction> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, maxAttempts = DEFAULT_MAX_ATTEMPTS, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    // While a half-open trial is in flight, wait for its verdict rather than adding to the load.
+    for (let trial = predictionCircuit.pendingTrial(); trial; trial = predictionCircuit.pendingTrial()) {
+      await untilSettled(trial, signal);
+    }
+    const permit = predictionCircuit.tryAcquire();
+    if (!permit) {
+      throw new CircuitOpenError(Date.now() + predictionCircuit.remainingCooldown());
+    }
+
+    try {
+      const prediction = await requestPrediction(data, timeoutMs, signal);
+      predictionCircuit.recordSuccess(permit);
+      return prediction;
+    } catch (error) {
+      if (error instanceof PredictionAbortedError) {
+        predictionCircuit.release(permit);
+        throw error;
+      }
+      if (!isTransient(error)) {
+        // The server answered, even if not usefully, so it is reachable.
+        predictionCircuit.recordSuccess(permit);
+        throw error;
+      }
+
+      predictionCircuit.recordFailure(permit);
+      if (attempt >= maxAttempts || predictionCircuit.remainingCooldown() > 0) throw error;
+
+      const delayMs = backoffDelay(attempt);
+      onRetry?.(attempt + 1, delayMs, error as Error);
+      await wait(delayMs, signal);
+    }
+  }
+}
+
+/** Identifies a request to a specific backend, so switching backends never serves stale results. */
+const cacheKey = (data: FormData) =>
+  JSON.stringify([getPredictionApiBaseUrl(), getMockBackendSettings().enabled, toPredictionRequest(data)]);
+
+/**
+ * `predict`, memoized per backend and request body. Used by views that sweep
+ * many similar inputs; the oldest entries are evicted past a fixed size.
+ */
+export async function predictCached(data: FormData, options?: PredictOptions): Promise<Prediction> {
+  const key = cacheKey(data);
+  const cached = predictionCache.get(key);
+  if (cached) return cached;
+
+  const prediction = await predict(data, options);
+  predictionCache.set(key, prediction);
+  if (predictionCache.size > MAX_CACHED_PREDICTIONS) {
+    predictionCache.delete(predictionCache.keys().next().value);
+  }
+  return prediction;
+}
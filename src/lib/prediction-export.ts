@@ -0,0 +1,125 @@
+import writeXlsxFile from "write-excel-file/browser";
+
+import type { BodyMeasurements } from "@/lib/bmi";
+import { formatCsv } from "@/lib/csv";
+import { downloadBlob } from "@/lib/download";
+import { toFhirExport } from "@/lib/fhir-export";
+import type { Prediction } from "@/lib/prediction-client";
+import type { PredictionRecord } from "@/lib/prediction-history";
+import type { FormData } from "@/lib/prediction-schema";
+import { classifyRiskTier } from "@/lib/risk-tier";
+
+/**
+ * Bumped whenever a column is renamed, removed or changes meaning. Adding a
+ * column at the end does not bump it. See "Export schema" in the README.
+ */
+export const EXPORT_SCHEMA_VERSION = 1;
+
+/** Everything an export row is built from: a history record without its storage id. */
+export type ExportedPrediction = Omit<PredictionRecord, "id">;
+
+export function toExportedPrediction(
+  input: FormData,
+  prediction: Prediction,
+  createdAt = new Date().toISOString(),
+  bodyMeasurements?: BodyMeasurements,
+): ExportedPrediction {
+  return {
+    createdAt,
+    input,
+    bodyMeasurements,
+    label: prediction.label,
+    probability: prediction.probability,
+    tier: classifyRiskTier(prediction, input),
+    modelVersion: prediction.modelVersion,
+    source: prediction.source,
+  };
+}
+
+type ExportValue = string | number | null;
+
+interface ExportColumn {
+  name: string;
+  type: "string" | "number";
+  value: (prediction: ExportedPrediction) => ExportValue;
+}
+
+const flag = (value: string) => (value === "yes" ? 1 : 0);
+
+/** The export schema, in column order. Inputs are always exported in the units named by their column. */
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { name: "schema_version", type: "number", value: () => EXPORT_SCHEMA_VERSION },
+  { name: "created_at", type: "string", value: (p) => p.createdAt },
+  { name: "gender", type: "string", value: (p) => p.input.gender },
+  { name: "age_years", type: "number", value: (p) => p.input.age },
+  { name: "hypertension", type: "number", value: (p) => flag(p.input.hypertension) },
+  { name: "heart_disease", type: "number", value: (p) => flag(p.input.heartDisease) },
+  { name: "smoking_history", type: "string", value: (p) => p.input.smokingHistory },
+  { name: "bmi_kg_m2", type: "number", value: (p) => p.input.bmi },
+  { name: "hba1c_percent", type: "number", value: (p) => p.input.hba1c },
+  { name: "blood_glucose_mg_dl", type: "number", value: (p) => p.input.bloodGlucose },
+  { name: "prediction", type: "string", value: (p) => p.label },
+  { name: "probability", type: "number", value: (p) => p.probability ?? null },
+  { name: "risk_tier", type: "string", value: (p) => p.tier },
+  { name: "model_version", type: "string", value: (p) => p.modelVersion ?? null },
+  { name: "source", type: "string", value: (p) => p.source },
+  { name: "height_cm", type: "number", value: (p) => p.bodyMeasurements?.heightCm ?? null },
+  { name: "weight_kg", type: "number", value: (p) => p.bodyMeasurements?.weightKg ?? null },
+];
+
+export type ExportFormat = "csv" | "json" | "xlsx" | "fhir";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv" },
+  json: { label: "JSON", extension: "json", mimeType: "application/json" },
+  xlsx: {
+    label: "Excel (XLSX)",
+    extension: "xlsx",
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  },
+  fhir: { label: "FHIR RiskAssessment", extension: "fhir.json", mimeType: "application/fhir+json" },
+};
+
+const toRow = (prediction: ExportedPrediction) => EXPORT_COLUMNS.map((column) => column.value(prediction));
+
+export function predictionsToCsv(predictions: ExportedPrediction[]): string {
+  return formatCsv([EXPORT_COLUMNS.map((column) => column.name), ...predictions.map(toRow)]);
+}
+
+/** An array of objects keyed by column name, so JSON and CSV exports carry the same fields. */
+export function predictionsToJson(predictions: ExportedPrediction[]): string {
+  const records = predictions.map((prediction) =>
+    Object.fromEntries(EXPORT_COLUMNS.map((column) => [column.name, column.value(prediction)])),
+  );
+  return JSON.stringify(records, null, 2);
+}
+
+function predictionsToXlsx(predictions: ExportedPrediction[]): Promise<Blob> {
+  const header = EXPORT_COLUMNS.map((column) => ({ value: column.name, fontWeight: "bold" as const }));
+  const rows = predictions.map((prediction) =>
+    EXPORT_COLUMNS.map((column) => {
+      const value = column.value(prediction);
+      return value === null ? null : { value, type: column.type === "number" ? Number : String };
+    }),
+  );
+  return writeXlsxFile([header, ...rows], { sheet: "Predictions" }).toBlob();
+}
+
+const TEXT_EXPORTS: Record<Exclude<ExportFormat, "xlsx">, (predictions: ExportedPrediction[]) => string> = {
+  csv: predictionsToCsv,
+  json: predictionsToJson,
+  fhir: (predictions) => JSON.stringify(toFhirExport(predictions), null, 2),
+};
+
+/**
+ * Builds the export file and hands it to the browser as `<baseName>.<extension>`.
+ * FHIR exports use their own structure rather than `EXPORT_COLUMNS`.
+ */
+export async function downloadPredictions(predictions: ExportedPrediction[], format: ExportFormat, baseName: string) {
+  const { extension, mimeType } = EXPORT_FORMATS[format];
+  const blob =
+    format === "xlsx"
+      ? await predictionsToXlsx(predictions)
+      : new Blob([TEXT_EXPORTS[format](predictions)], { type: mimeType });
+  downloadBlob(blob, `${baseName}.${extension}`);
+}
@@ -0,0 +1,60 @@
+import type { BodyMeasurements } from "@/lib/bmi";
+import { getAll, getOne, put, remove, STORES } from "@/lib/db";
+import type { Prediction } from "@/lib/prediction-client";
+import type { FormData, PredictionLabel } from "@/lib/prediction-schema";
+import { classifyRiskTier, type RiskTier } from "@/lib/risk-tier";
+
+/** A prediction as stored in the local history. */
+export interface PredictionRecord {
+  id: string;
+  /** Owning patient profile; absent for anonymous entries. */
+  profileId?: string;
+  /** ISO 8601 timestamp. */
+  createdAt: string;
+  input: FormData;
+  /** Height and weight the BMI was calculated from; absent when the BMI was entered directly. */
+  bodyMeasurements?: BodyMeasurements;
+  label: PredictionLabel;
+  probability?: number;
+  tier: RiskTier;
+  modelVersion?: string;
+  source: Prediction["source"];
+}
+
+export async function savePrediction(
+  input: FormData,
+  prediction: Prediction,
+  profileId: string | null,
+  bodyMeasurements?: BodyMeasurements,
+): Promise<PredictionRecord> {
+  return put<PredictionRecord>(STORES.predictions, {
+    id: crypto.randomUUID(),
+    profileId: profileId ?? undefined,
+    createdAt: new Date().toISOString(),
+    input,
+    bodyMeasurements,
+    label: prediction.label,
+    probability: prediction.probability,
+    tier: classifyRiskTier(prediction, input),
+    modelVersion: prediction.modelVersion,
+    source: prediction.source,
+  });
+}
+
+/** Stored predictions for a profile (`null` for anonymous entries), newest first. */
+export async function listPredictions(profileId: string | null): Promise<PredictionRecord[]> {
+  const records = await getAll<PredictionRecord>(STORES.predictions);
+  return records
+    .filter((record) => (record.profileId ?? null) === profileId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export const getPrediction = (id: string) => getOne<PredictionRecord>(STORES.predictions, id);
+
+export const deletePrediction = (id: string) => remove(STORES.predictions, id);
+
+/** Removes every prediction owned by a profile (`null` for anonymous entries). */
+export async function clearPredictionHistory(profileId: string | null) {
+  const records = await listPredictions(profileId);
+  await Promise.all(records.map((record) => deletePrediction(record.id)));
+}
@@ -0,0 +1,215 @@
+import * as z from "zod";
+
+import {
+  fromCanonicalLabValue,
+  LAB_UNIT_PRECISION,
+  roundTo,
+  toCanonicalLabValue,
+  type LabField,
+  type LabUnits,
+} from "@/lib/units";
+
+export const formSchema = z.object({
+  gender: z.string().min(1, "Please select gender"),
+  age: z.coerce.number().min(1, "Age must be at least 1").max(120, "Age must be less than 120"),
+  hypertension: z.string().min(1, "Please select hypertension status"),
+  heartDisease: z.string().min(1, "Please select heart disease status"),
+  smokingHistory: z.string().min(1, "Please select smoking history"),
+  bmi: z.coerce.number().min(10, "BMI must be at least 10").max(60, "BMI must be less than 60"),
+  hba1c: z.coerce.number().min(3, "HbA1c must be at least 3").max(15, "HbA1c must be less than 15"),
+  bloodGlucose: z.coerce.number().min(50, "Blood glucose must be at least 50").max(400, "Blood glucose must be less than 400"),
+});
+
+export type FormData = z.infer<typeof formSchema>;
+
+/**
+ * The values the form accepts for a lab in `unit`: `formSchema`'s limits
+ * converted and rounded inwards, so anything accepted stays within them.
+ */
+export function labInputRange<F extends LabField>(field: F, unit: LabUnits[F]) {
+  const scale = 10 ** LAB_UNIT_PRECISION[unit];
+  const convert = (value: number) => roundTo(fromCanonicalLabValue(field, value, unit) * scale, 6);
+  const { minValue, maxValue } = formSchema.shape[field];
+  return { min: Math.ceil(convert(minValue)) / scale, max: Math.floor(convert(maxValue)) / scale };
+}
+
+/** A lab entered as `{ value, unit }`, checked against the unit's range and parsed into the canonical unit. */
+const labInputSchema = <F extends LabField>(field: F, units: z.ZodType<LabUnits[F]>, label: string) =>
+  z
+    .object({ value: z.coerce.number(), unit: units })
+    .superRefine(({ value, unit }, ctx) => {
+      const { min, max } = labInputRange(field, unit);
+      if (value < min || value > max) {
+        const limit = value < min ? `at least ${min}` : `at most ${max}`;
+        const message = `${label} must be ${limit} ${unit}`;
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message });
+      }
+    })
+    .transform(({ value, unit }) => toCanonicalLabValue(field, value, unit));
+
+/**
+ * The prediction form, where HbA1c and blood glucose carry the unit they were
+ * entered in. It parses to `FormData` in canonical units, ready for the backend.
+ */
+export const formInputSchema = formSchema.extend({
+  hba1c: labInputSchema("hba1c", z.enum(["%", "mmol/mol"]), "HbA1c"),
+  bloodGlucose: labInputSchema("bloodGlucose", z.enum(["mg/dL", "mmol/L"]), "Blood glucose"),
+});
+
+export type FormInput = z.input<typeof formInputSchema>;
+
+/** A lab value in canonical units as the form shows it in `unit`, rounded to that unit's precision. */
+export const toFormLabValue = <F extends LabField>(field: F, value: number, unit: LabUnits[F]) =>
+  roundTo(fromCanonicalLabValue(field, value, unit), LAB_UNIT_PRECISION[unit]);
+
+/** Canonical values (from history, an import, …) as form input in `units`. */
+export function toFormInput(values: Partial<FormData>, units: LabUnits): Partial<FormInput> {
+  const { hba1c, bloodGlucose, ...rest } = values;
+  return {
+    ...rest,
+    ...(hba1c !== undefined && { hba1c: { value: toFormLabValue("hba1c", hba1c, units.hba1c), unit: units.hba1c } }),
+    ...(bloodGlucose !== undefined && {
+      bloodGlucose: {
+        value: toFormLabValue("bloodGlucose", bloodGlucose, units.bloodGlucose),
+        unit: units.bloodGlucose,
+      },
+    }),
+  };
+}
+
+export const FORM_FIELD_LABELS: Record<keyof FormData, string> = {
+  gender: "Gender",
+  age: "Age",
+  hypertension: "Hypertension",
+  heartDisease: "Heart Disease",
+  smokingHistory: "Smoking History",
+  bmi: "BMI",
+  hba1c: "HbA1c Level",
+  bloodGlucose: "Blood Glucose Level",
+};
+
+export type CategoricalField = "gender" | "hypertension" | "heartDisease" | "smokingHistory";
+
+/** The values each select on the form can take, in display order. */
+export const CATEGORICAL_OPTIONS: Record<CategoricalField, { value: string; label: string }[]> = {
+  gender: [
+    { value: "male", label: "Male" },
+    { value: "female", label: "Female" },
+    { value: "other", label: "Other" },
+  ],
+  hypertension: [
+    { value: "yes", label: "Yes" },
+    { value: "no", label: "No" },
+  ],
+  heartDisease: [
+    { value: "yes", label: "Yes" },
+    { value: "no", label: "No" },
+  ],
+  smokingHistory: [
+    { value: "never", label: "Never" },
+    { value: "current", label: "Current" },
+    { value: "former", label: "Former" },
+    { value: "ever", label: "Ever" },
+    { value: "not_current", label: "Not Current" },
+  ],
+};
+
+const binaryFlagSchema = z.union([z.literal(0), z.literal(1)]);
+
+/** Request body accepted by the backend's `POST /predict`. */
+export const predictionRequestSchema = z.object({
+  gender: z.string().min(1),
+  age: z.number().min(0).max(120),
+  hypertension: binaryFlagSchema,
+  heart_disease: binaryFlagSchema,
+  smoking_history: z.string().min(1),
+  bmi: z.number().positive(),
+  HbA1c_level: z.number().positive(),
+  blood_glucose_level: z.number().positive(),
+});
+
+export type PredictionRequest = z.infer<typeof predictionRequestSchema>;
+
+export type PredictionLabel = "diabetic" | "non-diabetic";
+
+const POSITIVE_LABELS = ["diabetic", "diabetes", "positive", "yes", "1"];
+const NEGATIVE_LABELS = ["non-diabetic", "non diabetic", "nondiabetic", "not diabetic", "no diabetes", "negative", "no", "0"];
+
+/** Accepts the label spellings the backend has used ("Diabetic", "Non-Diabetic", 1/0, ...). */
+export const predictionLabelSchema = z.union([z.string(), z.number()]).transform((value, ctx): PredictionLabel => {
+  const normalized = String(value).trim().toLowerCase().replace(/_/g, "-");
+
+  if (POSITIVE_LABELS.includes(normalized)) return "diabetic";
+  if (NEGATIVE_LABELS.includes(normalized)) return "non-diabetic";
+
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown prediction label "${value}"` });
+  return z.NEVER;
+});
+
+const probabilitySchema = z.number().min(0).max(1);
+
+const TIER_SPELLINGS: Record<string, "normal" | "pre-diabetic" | "diabetic"> = {
+  normal: "normal",
+  "non-diabetic": "normal",
+  "pre-diabetic": "pre-diabetic",
+  "pre-diabetes": "pre-diabetic",
+  prediabetic: "pre-diabetic",
+  prediabetes: "pre-diabetic",
+  diabetic: "diabetic",
+  diabetes: "diabetic",
+};
+
+/** Optional three-tier classification some backend versions report as `risk_tier`. */
+export const riskTierSchema = z.string().transform((value, ctx) => {
+  const tier = TIER_SPELLINGS[value.trim().toLowerCase().replace(/[_\s]/g, "-")];
+  if (tier) return tier;
+
+  ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown risk tier "${value}"` });
+  return z.NEVER;
+});
+
+const modelOutputSchema = z.union([
+  predictionLabelSchema,
+  z.object({
+    prediction: predictionLabelSchema,
+    probability: probabilitySchema.optional(),
+  }),
+]);
+
+const modelOutputsSchema = z.record(modelOutputSchema);
+
+/** Per-feature contributions to the log-odds (e.g. SHAP values), keyed by backend field name. */
+const featureContributionsSchema = z.record(z.number());
+
+/**
+ * Body of `POST /predict`. Every field is optional because the backend has
+ * shipped several shapes: a bare `final_result`, a probability, and
+ * per-model outputs keyed by model name. The adapter in the prediction client
+ * decides whether what arrived is enough to make a prediction.
+ */
+export const predictionResponseSchema = z.object({
+  final_result: predictionLabelSchema.optional(),
+  prediction: predictionLabelSchema.optional(),
+  probability: probabilitySchema.optional(),
+  diabetes_probability: probabilitySchema.optional(),
+  models: modelOutputsSchema.optional(),
+  model_predictions: modelOutputsSchema.optional(),
+  individual_predictions: modelOutputsSchema.optional(),
+  model_version: z.string().optional(),
+  risk_tier: riskTierSchema.optional(),
+  feature_contributions: featureContributionsSchema.optional(),
+  shap_values: featureContributionsSchema.optional(),
+  explanations: featureContributionsSchema.optional(),
+});
+
+export type PredictionResponse = z.input<typeof predictionResponseSchema>;
+
+/** FastAPI's 422 body: `{ detail: [{ loc: ["body", "age"], msg: "...", type: "..." }] }`. */
+export const backendValidationErrorSchema = z.object({
+  detail: z.array(
+    z.object({
+      loc: z.array(z.union([z.string(), z.number()])),
+      msg: z.string(),
+    }),
+  ),
+});
@@ -0,0 +1,101 @@
+import { formatLabValue, fromCanonicalLabValue, LAB_UNIT_PRECISION, type LabField, type LabUnits } from "@/lib/units";
+
+/**
+ * Diagnostic thresholds from the Blood Sugar Reference Ranges table (ADA).
+ * A value at or above `preDiabetes` is in the pre-diabetes band; at or above
+ * `diabetes` it is in the diabetes band.
+ */
+export const REFERENCE_THRESHOLDS = {
+  fastingGlucose: { preDiabetes: 100, diabetes: 126, unit: "mg/dL" },
+  afterMealGlucose: { preDiabetes: 140, diabetes: 200, unit: "mg/dL" },
+  hba1c: { preDiabetes: 5.7, diabetes: 6.5, unit: "%" },
+} as const;
+
+export type ReferenceMeasure = keyof typeof REFERENCE_THRESHOLDS;
+
+/** The form field each measure is read from. */
+export const REFERENCE_MEASURE_FIELDS = {
+  fastingGlucose: "bloodGlucose",
+  afterMealGlucose: "bloodGlucose",
+  hba1c: "hba1c",
+} as const satisfies Record<ReferenceMeasure, LabField>;
+
+/** A measure's value (in canonical units) shown in the unit `units` gives for its field, e.g. `7.0 mmol/L`. */
+export function formatMeasureValue(measure: ReferenceMeasure, value: number, units: LabUnits) {
+  const field = REFERENCE_MEASURE_FIELDS[measure];
+  return formatLabValue(field, value, units[field]);
+}
+
+export type ReferenceBand = "normal" | "pre-diabetes" | "diabetes";
+
+export const REFERENCE_BAND_LABELS: Record<ReferenceBand, string> = {
+  normal: "Normal",
+  "pre-diabetes": "Pre-Diabetes",
+  diabetes: "Diabetes",
+};
+
+export function referenceBand(measure: ReferenceMeasure, value: number): ReferenceBand {
+  const { preDiabetes, diabetes } = REFERENCE_THRESHOLDS[measure];
+  if (value >= diabetes) return "diabetes";
+  if (value >= preDiabetes) return "pre-diabetes";
+  return "normal";
+}
+
+/**
+ * Table text for each band, e.g. `<100`, `100–125`, `≥126`. With `units` the
+ * thresholds are converted first, e.g. `<5.6`, `5.6–6.9`, `≥7.0` mmol/L.
+ */
+export function formatReferenceBands(
+  measure: ReferenceMeasure,
+  units?: Partial<LabUnits>,
+): Record<ReferenceBand, string> {
+  const field = REFERENCE_MEASURE_FIELDS[measure];
+  const unit = units?.[field] ?? REFERENCE_THRESHOLDS[measure].unit;
+  const precision = LAB_UNIT_PRECISION[unit];
+  const convert = (value: number) => fromCanonicalLabValue(field, value, unit);
+  const preDiabetes = convert(REFERENCE_THRESHOLDS[measure].preDiabetes);
+  const diabetes = convert(REFERENCE_THRESHOLDS[measure].diabetes);
+  const step = 10 ** -precision;
+  const format = (value: number) => value.toFixed(precision);
+
+  return {
+    normal: `<${format(preDiabetes)}`,
+    "pre-diabetes": `${format(preDiabetes)}–${format(diabetes - step)}`,
+    diabetes: `≥${format(diabetes)}`,
+  };
+}
+
+/** WHO adult BMI cut-offs (kg/m²). */
+export const BMI_THRESHOLDS = { underweight: 18.5, overweight: 25, obese: 30 } as const;
+
+/**
+ * Lower cut-offs from the WHO expert consultation on BMI in Asian populations
+ * (2004), where diabetes and cardiovascular risk rise at a lower BMI.
+ */
+export const ASIAN_BMI_THRESHOLDS = { underweight: 18.5, overweight: 23, obese: 27.5 } as const;
+
+export type BmiCutoffs = "who" | "asian";
+
+type BmiThresholds = Record<keyof typeof BMI_THRESHOLDS, number>;
+
+export const BMI_CUTOFFS: Record<BmiCutoffs, { label: string; thresholds: BmiThresholds }> = {
+  who: { label: "WHO", thresholds: BMI_THRESHOLDS },
+  asian: { label: "WHO Asian", thresholds: ASIAN_BMI_THRESHOLDS },
+};
+
+export type BmiCategory = "underweight" | "normal" | "overweight" | "obese";
+
+export const BMI_CATEGORY_LABELS: Record<BmiCategory, string> = {
+  underweight: "Underweight",
+  normal: "Normal weight",
+  overweight: "Overweight",
+  obese: "Obese",
+};
+
+export function bmiCategory(bmi: number, cutoffs: BmiCutoffs = "who"): BmiCategory {
+  const { underweight, overweight, obese } = BMI_CUTOFFS[cutoffs].thresholds;
+  if (bmi >= obese) return "obese";
+  if (bmi >= overweight) return "overweight";
+  if (bmi >= underweight) return "normal";
+  return "underweight";
+}
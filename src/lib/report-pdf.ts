@@ -0,0 +1,33 @@
+/** A4 portrait, in millimetres. */
+const PAGE = { width: 210, height: 297, margin: 14 };
+const SECTION_GAP = 4;
+
+/**
+ * Renders each section to an image and lays them out on A4 pages, starting a
+ * new page rather than splitting a section. A section taller than a page is
+ * scaled down to fit. The PDF libraries are loaded on first use.
+ */
+export async function downloadReportPdf(sections: HTMLElement[], fileName: string) {
+  const [{ jsPDF }, { default: html2canvas }] = await Promise.all([import("jspdf"), import("html2canvas")]);
+  const pdf = new jsPDF({ unit: "mm", format: "a4" });
+  const contentWidth = PAGE.width - 2 * PAGE.margin;
+  const contentHeight = PAGE.height - 2 * PAGE.margin;
+  let y = PAGE.margin;
+
+  for (const section of sections) {
+    const canvas = await html2canvas(section, { scale: 2, backgroundColor: "#ffffff" });
+    const naturalHeight = (canvas.height * contentWidth) / canvas.width;
+    const fit = Math.min(1, contentHeight / naturalHeight);
+    const width = contentWidth * fit;
+    const height = naturalHeight * fit;
+
+    if (y + height > PAGE.margin + contentHeight && y > PAGE.margin) {
+      pdf.addPage();
+      y = PAGE.margin;
+    }
+    pdf.addImage(canvas.toDataURL("image/png"), "PNG", PAGE.margin, y, width, height);
+    y += height + SECTION_GAP;
+  }
+
+  pdf.save(fileName);
+}
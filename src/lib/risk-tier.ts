@@ -0,0 +1,118 @@
+import type { Prediction } from "@/lib/prediction-client";
+import type { FormData } from "@/lib/prediction-schema";
+import { referenceBand } from "@/lib/reference-ranges";
+
+export type RiskTier = "normal" | "pre-diabetic" | "indeterminate" | "diabetic";
+
+/**
+ * Probability bands around the 0.5 decision threshold. Results inside
+ * `indeterminate` are too close to call; below `preDiabetic` the model sees
+ * no meaningful elevation.
+ */
+export const RISK_TIER_BANDS = {
+  preDiabetic: 0.2,
+  indeterminate: [0.4, 0.6],
+} as const;
+
+/** The predicted probability, or 0/1 from the label when the backend reports no probability. */
+export function riskScore(prediction: Prediction): number {
+  return prediction.probability ?? (prediction.label === "diabetic" ? 1 : 0);
+}
+
+/** The tier the probability alone points to, before the labs or the label are considered. */
+export function probabilityTier(probability: number): RiskTier {
+  const [indeterminateLow, indeterminateHigh] = RISK_TIER_BANDS.indeterminate;
+  if (probability >= indeterminateHigh) return "diabetic";
+  if (probability >= indeterminateLow) return "indeterminate";
+  return probability >= RISK_TIER_BANDS.preDiabetic ? "pre-diabetic" : "normal";
+}
+
+/**
+ * Explains how the backend's label and probability contradict each other,
+ * e.g. a "diabetic" label with a 15% probability; `undefined` when they agree
+ * or there is no probability to compare.
+ */
+export function labelProbabilityConflict(prediction: Prediction): string | undefined {
+  const { probability, label } = prediction;
+  if (probability === undefined) return undefined;
+  const [indeterminateLow, indeterminateHigh] = RISK_TIER_BANDS.indeterminate;
+  const percent = Math.round(probability * 100);
+  if (label === "diabetic" && probability < indeterminateLow) {
+    return `The model labelled this result diabetic but gave a probability of only ${percent}%.`;
+  }
+  if (label !== "diabetic" && probability >= indeterminateHigh) {
+    return `The model labelled this result non-diabetic but gave a probability of ${percent}%.`;
+  }
+  return undefined;
+}
+
+/**
+ * Places a prediction in one of four tiers. A tier reported by the backend
+ * wins; otherwise the probability decides, and a negative result whose HbA1c
+ * or glucose sits in the pre-diabetes reference band is reported as
+ * pre-diabetic rather than normal. When the label and the probability
+ * contradict each other neither is trusted and the result is indeterminate,
+ * so a "diabetic" label is never shown as low risk.
+ */
+export function classifyRiskTier(prediction: Prediction, input: FormData): RiskTier {
+  if (prediction.tier) return prediction.tier;
+  if (labelProbabilityConflict(prediction)) return "indeterminate";
+
+  const { probability, label } = prediction;
+  const tier = probability !== undefined ? probabilityTier(probability) : label === "diabetic" ? "diabetic" : "normal";
+  if (tier !== "normal") return tier;
+
+  const glycemicPreDiabetes =
+    referenceBand("hba1c", input.hba1c) !== "normal" || referenceBand("afterMealGlucose", input.bloodGlucose) !== "normal";
+  return glycemicPreDiabetes ? "pre-diabetic" : "normal";
+}
+
+export const RISK_TIER_LABELS: Record<RiskTier, string> = {
+  normal: "Normal",
+  "pre-diabetic": "Pre-Diabetic",
+  indeterminate: "Borderline",
+  diabetic: "Diabetic",
+};
+
+export interface RiskTierInfo {
+  title: string;
+  summary: string;
+  guidance: string[];
+}
+
+export const RISK_TIER_INFO: Record<RiskTier, RiskTierInfo> = {
+  normal: {
+    title: "Low Risk: No Diabetes Detected",
+    summary: "Your values do not suggest diabetes or pre-diabetes.",
+    guidance: [
+      "Keep up a balanced diet and at least 150 minutes of activity per week.",
+      "Repeat screening every 3 years, or sooner if symptoms appear.",
+    ],
+  },
+  "pre-diabetic": {
+    title: "Elevated Risk: Pre-Diabetes Range",
+    summary: "Your risk is raised. Pre-diabetes can often be reversed with lifestyle changes.",
+    guidance: [
+      "Aim to lose 5–7% of body weight if overweight, and stay active most days.",
+      "Cut down on sugary drinks and refined carbohydrates.",
+      "Recheck HbA1c or fasting glucose within 12 months and discuss the result with your doctor.",
+    ],
+  },
+  indeterminate: {
+    title: "Borderline Result: Further Testing Needed",
+    summary: "The estimate is too close to the decision threshold to call either way.",
+    guidance: [
+      "Repeat HbA1c and fasting glucose tests to confirm.",
+      "Book an appointment with a healthcare professional to review the results.",
+    ],
+  },
+  diabetic: {
+    title: "High Risk: Diabetes Detected",
+    summary: "Your values are consistent with diabetes.",
+    guidance: [
+      "See a doctor soon for confirmatory testing; a diagnosis needs repeat laboratory tests.",
+      "Do not start or change medication without medical advice.",
+      "Seek urgent care for extreme thirst, confusion, vomiting or difficulty breathing.",
+    ],
+  },
+};
@@ -0,0 +1,22 @@
+/** General self-care advice shown on the assessment page and in patient reports. */
+export const SELF_CARE_DOS = [
+  "Eat vegetables, whole grains, and lean protein.",
+  "Exercise or walk at least 30 minutes daily.",
+  "Drink adequate water.",
+  "Monitor blood sugar regularly.",
+  "Follow prescribed medication or insulin.",
+];
+
+export const SELF_CARE_DONTS = [
+  "Avoid sugary drinks like soda and packaged juices.",
+  "Do not skip meals.",
+  "Avoid smoking and limit alcohol.",
+  "Reduce fried and processed foods.",
+  "Do not self-adjust medication.",
+];
+
+export const EXERCISE_SUGGESTIONS = [
+  "30 minutes brisk walking",
+  "Light yoga or stretching",
+  "Strength or resistance training 3 times per week",
+];
@@ -0,0 +1,228 @@
+import * as z from "zod";
+
+import { OBSERVATION_CODES } from "@/lib/fhir-codes";
+import { CODE_SYSTEMS } from "@/lib/fhir-schema";
+
+const PENDING_STORAGE_KEY = "smart-launch-pending";
+const SESSION_STORAGE_KEY = "smart-session";
+
+export const SMART_CLIENT_ID = import.meta.env.VITE_SMART_CLIENT_ID || "diabetes-risk-app";
+export const SMART_REDIRECT_PATH = "/smart/callback";
+
+/** FHIR server for standalone launches: `VITE_SMART_ISS`, or the local stand-in during development. */
+export function getStandaloneIss(): string | undefined {
+  if (import.meta.env.VITE_SMART_ISS) return import.meta.env.VITE_SMART_ISS;
+  return import.meta.env.DEV ? `${window.location.origin}/fhir` : undefined;
+}
+
+const smartConfigurationSchema = z.object({
+  authorization_endpoint: z.string().url(),
+  token_endpoint: z.string().url(),
+  code_challenge_methods_supported: z.array(z.string()).optional(),
+});
+
+const tokenResponseSchema = z.object({
+  access_token: z.string().min(1),
+  token_type: z.string().regex(/^bearer$/i),
+  expires_in: z.number().optional(),
+  scope: z.string().optional(),
+  patient: z.string().optional(),
+});
+
+interface PendingLaunch {
+  state: string;
+  codeVerifier: string;
+  iss: string;
+  tokenEndpoint: string;
+  redirectUri: string;
+}
+
+export interface SmartSession {
+  iss: string;
+  accessToken: string;
+  /** Epoch milliseconds; `undefined` when the server didn't say. */
+  expiresAt?: number;
+  scope?: string;
+  patient: string;
+}
+
+/** A step of the SMART App Launch failed; `message` is written for the user. */
+export class SmartLaunchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SmartLaunchError";
+  }
+}
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const randomString = (byteLength: number) => base64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+async function pkceChallenge(verifier: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+}
+
+async function discover(iss: string) {
+  let response: Response;
+  try {
+    response = await fetch(`${iss.replace(/\/$/, "")}/.well-known/smart-configuration`, {
+      headers: { Accept: "application/json" },
+    });
+  } catch {
+    throw new SmartLaunchError(`Could not reach the FHIR server at ${iss}.`);
+  }
+  const parsed = smartConfigurationSchema.safeParse(response.ok ? await response.json() : undefined);
+  if (!parsed.success) throw new SmartLaunchError(`${iss} does not advertise a SMART configuration.`);
+  if (parsed.data.code_challenge_methods_supported?.includes("S256") === false) {
+    throw new SmartLaunchError(`${iss} does not support PKCE with S256.`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Starts a SMART App Launch and returns the authorization URL to send the
+ * browser to. `launch` is present for EHR launches and absent for standalone
+ * ones, which ask the server to pick a patient instead. The PKCE verifier and
+ * `state` wait in session storage for `completeSmartLaunch`.
+ */
+export async function beginSmartLaunch({ iss, launch }: { iss: string; launch?: string }): Promise<string> {
+  const configuration = await discover(iss);
+  const codeVerifier = randomString(32);
+  const pending: PendingLaunch = {
+    state: randomString(16),
+    codeVerifier,
+    iss,
+    tokenEndpoint: configuration.token_endpoint,
+    redirectUri: `${window.location.origin}${SMART_REDIRECT_PATH}`,
+  };
+  sessionStorage.setItem(PENDING_STORAGE_KEY, JSON.stringify(pending));
+
+  const scopes = [
+    launch ? "launch" : "launch/patient",
+    "openid",
+    "fhirUser",
+    "patient/Patient.read",
+    "patient/Observation.read",
+    "patient/Condition.read",
+  ];
+  const url = new URL(configuration.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: SMART_CLIENT_ID,
+    redirect_uri: pending.redirectUri,
+    scope: scopes.join(" "),
+    state: pending.state,
+    aud: iss,
+    code_challenge: await pkceChallenge(codeVerifier),
+    code_challenge_method: "S256",
+    ...(launch ? { launch } : {}),
+  }).toString();
+  return url.toString();
+}
+
+/** Exchanges the authorization code on the redirect URL for an access token and stores the session. */
+export async function completeSmartLaunch(params: URLSearchParams): Promise<SmartSession> {
+  const stored = sessionStorage.getItem(PENDING_STORAGE_KEY);
+  sessionStorage.removeItem(PENDING_STORAGE_KEY);
+  const pending: PendingLaunch | null = stored ? JSON.parse(stored) : null;
+
+  if (params.get("error")) {
+    throw new SmartLaunchError(`Authorization was refused: ${params.get("error_description") ?? params.get("error")}`);
+  }
+  if (!pending || params.get("state") !== pending.state) {
+    throw new SmartLaunchError("This sign-in response does not match a launch started here. Launch the app again.");
+  }
+  const code = params.get("code");
+  if (!code) throw new SmartLaunchError("The authorization server did not return a code.");
+
+  const response = await fetch(pending.tokenEndpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: pending.redirectUri,
+      client_id: SMART_CLIENT_ID,
+      code_verifier: pending.codeVerifier,
+    }),
+  });
+  const body = await response.json().catch(() => undefined);
+  if (!response.ok) {
+    const reason = body?.error_description ?? body?.error ?? response.status;
+    throw new SmartLaunchError(`The token request failed: ${reason}`);
+  }
+  const token = tokenResponseSchema.safeParse(body);
+  if (!token.success) throw new SmartLaunchError("The token response was not understood.");
+  if (!token.data.patient) throw new SmartLaunchError("The EHR did not share a patient context.");
+
+  const session: SmartSession = {
+    iss: pending.iss,
+    accessToken: token.data.access_token,
+    expiresAt: token.data.expires_in ? Date.now() + token.data.expires_in * 1000 : undefined,
+    scope: token.data.scope,
+    patient: token.data.patient,
+  };
+  // Session storage keeps the token out of other tabs and drops it when the tab closes.
+  sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  return session;
+}
+
+/** The current SMART session, or `null` when there is none or its token has expired. */
+export function getSmartSession(): SmartSession | null {
+  const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+  const session: SmartSession | null = stored ? JSON.parse(stored) : null;
+  if (session?.expiresAt && session.expiresAt <= Date.now()) {
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+    return null;
+  }
+  return session;
+}
+
+export function clearSmartSession() {
+  sessionStorage.removeItem(SESSION_STORAGE_KEY);
+}
+
+async function fhirGet(session: SmartSession, path: string) {
+  const response = await fetch(`${session.iss.replace(/\/$/, "")}/${path}`, {
+    headers: { Accept: "application/fhir+json", Authorization: `Bearer ${session.accessToken}` },
+  });
+  if (response.status === 401) {
+    clearSmartSession();
+    throw new SmartLaunchError("The EHR session has expired. Launch the app again.");
+  }
+  if (!response.ok) throw new SmartLaunchError(`The FHIR server answered ${response.status} for ${path}.`);
+  return response.json();
+}
+
+/**
+ * The patient in context with their diabetes-relevant Observations and their
+ * Conditions, gathered into one `collection` Bundle for `readFhirBundle`.
+ */
+export async function fetchPatientBundle(session: SmartSession) {
+  const patient = encodeURIComponent(session.patient);
+  const observationCodes = Object.values(OBSERVATION_CODES)
+    .flat()
+    .map((code) => `${CODE_SYSTEMS.loinc}|${code}`)
+    .join(",");
+  const observationQuery = `patient=${patient}&code=${encodeURIComponent(observationCodes)}&_sort=-date&_count=100`;
+
+  const [patientResource, observations, conditions] = await Promise.all([
+    fhirGet(session, `Patient/${patient}`),
+    fhirGet(session, `Observation?${observationQuery}`),
+    fhirGet(session, `Condition?patient=${patient}&_count=100`),
+  ]);
+  const entries = [...(observations.entry ?? []), ...(conditions.entry ?? [])].filter(
+    (entry: { search?: { mode?: string } }) => entry.search?.mode !== "outcome",
+  );
+
+  return {
+    resourceType: "Bundle",
+    type: "collection",
+    entry: [{ resource: patientResource }, ...entries.map(({ resource }: { resource: unknown }) => ({ resource }))],
+  };
+}
@@ -0,0 +1,39 @@
+import { CANONICAL_LAB_UNITS, LAB_UNIT_OPTIONS, type LabUnits } from "@/lib/units";
+
+const PREFERENCES_STORAGE_KEY = "unit-preferences";
+
+const listeners = new Set<() => void>();
+let preferences: LabUnits = loadPreferences();
+
+/** Stored units that aren't (or are no longer) offered fall back to the canonical ones. */
+function loadPreferences(): LabUnits {
+  try {
+    const stored: Partial<LabUnits> = JSON.parse(localStorage.getItem(PREFERENCES_STORAGE_KEY) ?? "{}");
+    return {
+      hba1c: LAB_UNIT_OPTIONS.hba1c.includes(stored.hba1c) ? stored.hba1c : CANONICAL_LAB_UNITS.hba1c,
+      bloodGlucose: LAB_UNIT_OPTIONS.bloodGlucose.includes(stored.bloodGlucose)
+        ? stored.bloodGlucose
+        : CANONICAL_LAB_UNITS.bloodGlucose,
+    };
+  } catch {
+    return CANONICAL_LAB_UNITS;
+  }
+}
+
+/** The units the user prefers to enter and read lab values in. */
+export function getUnitPreferences(): LabUnits {
+  return preferences;
+}
+
+export function updateUnitPreferences(patch: Partial<LabUnits>) {
+  preferences = { ...preferences, ...patch };
+  localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeToUnitPreferences(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -0,0 +1,85 @@
+/** Conversion factor between glucose in mg/dL and mmol/L (molar mass of glucose / 10). */
+export const GLUCOSE_MG_DL_PER_MMOL_L = 18.016;
+
+export const glucoseMmolToMgDl = (mmolPerL: number) => mmolPerL * GLUCOSE_MG_DL_PER_MMOL_L;
+export const glucoseMgDlToMmol = (mgPerDl: number) => mgPerDl / GLUCOSE_MG_DL_PER_MMOL_L;
+
+/** IFCC (mmol/mol) to NGSP (%) HbA1c, using the IFCC–NGSP master equation. */
+export const hba1cMmolMolToPercent = (mmolPerMol: number) => mmolPerMol / 10.929 + 2.15;
+export const hba1cPercentToMmolMol = (percent: number) => (percent - 2.15) * 10.929;
+
+export const CM_PER_INCH = 2.54;
+export const KG_PER_POUND = 0.45359237;
+
+export const feetAndInchesToCm = (feet: number, inches: number) => (feet * 12 + inches) * CM_PER_INCH;
+
+/** Whole feet and the remaining inches, e.g. 170 cm → 5 ft 6.9 in. */
+export function cmToFeetAndInches(cm: number) {
+  const totalInches = cm / CM_PER_INCH;
+  const feet = Math.floor(totalInches / 12);
+  return { feet, inches: totalInches - feet * 12 };
+}
+
+export const poundsToKg = (pounds: number) => pounds * KG_PER_POUND;
+export const kgToPounds = (kg: number) => kg / KG_PER_POUND;
+
+/** Rounds to `precision` decimal places, e.g. for displaying converted values. */
+export const roundTo = (value: number, precision: number) => Number(value.toFixed(precision));
+
+export type LabField = "hba1c" | "bloodGlucose";
+export type Hba1cUnit = "%" | "mmol/mol";
+export type GlucoseUnit = "mg/dL" | "mmol/L";
+
+/** The unit each lab is entered or shown in. */
+export interface LabUnits {
+  hba1c: Hba1cUnit;
+  bloodGlucose: GlucoseUnit;
+}
+
+/** The units the model was trained on and the backend expects (NGSP % and mg/dL). */
+export const CANONICAL_LAB_UNITS: LabUnits = { hba1c: "%", bloodGlucose: "mg/dL" };
+
+export const LAB_UNIT_OPTIONS: { [F in LabField]: LabUnits[F][] } = {
+  hba1c: ["%", "mmol/mol"],
+  bloodGlucose: ["mg/dL", "mmol/L"],
+};
+
+/** Decimal places a value in each unit is entered and shown with. */
+export const LAB_UNIT_PRECISION: Record<Hba1cUnit | GlucoseUnit, number> = {
+  "%": 1,
+  "mmol/mol": 0,
+  "mg/dL": 0,
+  "mmol/L": 1,
+};
+
+/** Converts a lab value from `unit` to the canonical unit, without rounding. */
+export function toCanonicalLabValue<F extends LabField>(field: F, value: number, unit: LabUnits[F]): number {
+  if (unit === CANONICAL_LAB_UNITS[field]) return value;
+  return field === "hba1c" ? hba1cMmolMolToPercent(value) : glucoseMmolToMgDl(value);
+}
+
+/** Converts a lab value from the canonical unit to `unit`, without rounding. */
+export function fromCanonicalLabValue<F extends LabField>(field: F, value: number, unit: LabUnits[F]): number {
+  if (unit === CANONICAL_LAB_UNITS[field]) return value;
+  return field === "hba1c" ? hba1cPercentToMmolMol(value) : glucoseMgDlToMmol(value);
+}
+
+/** A canonical lab value as a number in `unit`, e.g. `7.0` for 126 mg/dL in mmol/L. */
+export const formatLabNumber = <F extends LabField>(field: F, value: number, unit: LabUnits[F]) =>
+  fromCanonicalLabValue(field, value, unit).toFixed(LAB_UNIT_PRECISION[unit]);
+
+/** A canonical lab value with its unit, e.g. `7.0 mmol/L`. */
+export const formatLabValue = <F extends LabField>(field: F, value: number, unit: LabUnits[F]) =>
+  `${formatLabNumber(field, value, unit)} ${unit}`;
+
+/**
+ * Converts a reported HbA1c or glucose result to the form's unit (% or mg/dL),
+ * or returns `undefined` for units we don't know. `unit` is matched case-insensitively.
+ * The result is not rounded, so an imported value reaches the model exactly as
+ * the same value typed into the form would; round it only for display.
+ */
+export function labValueInFormUnit(field: LabField, value: number, unit: string): number | undefined {
+  const known = LAB_UNIT_OPTIONS[field].find((candidate) => candidate.toLowerCase() === unit.trim().toLowerCase());
+  if (!known) return undefined;
+  return toCanonicalLabValue(field, value, known);
+}
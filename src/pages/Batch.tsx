@@ -0,0 +1,274 @@
+import { useMemo, useState } from "react";
+import { FileSpreadsheet, Play, Settings2, Square } from "lucide-react";
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AppNav } from "@/components/AppNav";
+import { BackendSettings } from "@/components/BackendSettings";
+import { ColumnMappingWizard } from "@/components/ColumnMappingWizard";
+import { ExportMenu } from "@/components/ExportMenu";
+import { RiskTierBadge } from "@/components/RiskTierBadge";
+import { SortableHead, type SortState } from "@/components/SortableHead";
+import { UnitPreferencesMenu } from "@/components/UnitPreferencesMenu";
+import { useBatchPrediction } from "@/hooks/use-batch-prediction";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import { applyColumnMapping, BatchFileError, readDataTable, type BatchRow } from "@/lib/batch-import";
+import type { ColumnMapping, DataTable } from "@/lib/column-mapping";
+import type { BatchOutcome } from "@/lib/prediction-batch";
+import type { Prediction } from "@/lib/prediction-client";
+import { toExportedPrediction } from "@/lib/prediction-export";
+import { FORM_FIELD_LABELS, type FormData } from "@/lib/prediction-schema";
+import { classifyRiskTier, riskScore, type RiskTier } from "@/lib/risk-tier";
+import { formatLabNumber } from "@/lib/units";
+
+type ValidRow = Extract<BatchRow, { ok: true }>;
+type InvalidRow = Extract<BatchRow, { ok: false }>;
+
+interface BatchResult {
+  line: number;
+  input: FormData;
+  prediction?: Prediction;
+  tier?: RiskTier;
+  error?: string;
+}
+
+type SortKey = "line" | "probability" | "hba1c" | "bloodGlucose" | "bmi" | "age";
+
+const SORT_VALUES: Record<SortKey, (result: BatchResult) => number> = {
+  line: (result) => result.line,
+  probability: (result) => (result.prediction ? riskScore(result.prediction) : -1),
+  hba1c: (result) => result.input.hba1c,
+  bloodGlucose: (result) => result.input.bloodGlucose,
+  bmi: (result) => result.input.bmi,
+  age: (result) => result.input.age,
+};
+
+const toResult = ({ line, input }: ValidRow, outcome: BatchOutcome): BatchResult =>
+  "prediction" in outcome
+    ? { line, input, prediction: outcome.prediction, tier: classifyRiskTier(outcome.prediction, input) }
+    : { line, input, error: outcome.error.message };
+
+const Batch = () => {
+  const [fileName, setFileName] = useState<string>();
+  const [table, setTable] = useState<DataTable>();
+  const [mapping, setMapping] = useState<ColumnMapping>();
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [fileError, setFileError] = useState<string>();
+  const [sort, setSort] = useState<SortState<SortKey>>({ key: "line", direction: "asc" });
+  const { state, run, cancel, reset } = useBatchPrediction();
+  const [units] = useUnitPreferences();
+
+  const validRows = useMemo(() => rows.filter((row): row is ValidRow => row.ok), [rows]);
+  const invalidRows = rows.filter((row): row is InvalidRow => !row.ok);
+
+  const results = useMemo(() => {
+    if (state.status !== "done") return [];
+    const value = SORT_VALUES[sort.key];
+    const direction = sort.direction === "asc" ? 1 : -1;
+    return validRows
+      .map((row, index) => toResult(row, state.outcomes[index]))
+      .sort((a, b) => (value(a) - value(b)) * direction);
+  }, [state, validRows, sort]);
+
+  const exported =
+    state.status === "done"
+      ? results
+          .filter((result) => result.prediction)
+          .map((result) => toExportedPrediction(result.input, result.prediction, state.completedAt))
+      : [];
+
+  const loadFile = async (file: File | undefined) => {
+    reset();
+    setTable(undefined);
+    setMapping(undefined);
+    setRows([]);
+    setFileError(undefined);
+    setFileName(file?.name);
+    if (!file) return;
+
+    try {
+      setTable(await readDataTable(file));
+    } catch (error) {
+      if (!(error instanceof BatchFileError)) throw error;
+      setFileError(error.message);
+    }
+  };
+
+  const applyMapping = (next: ColumnMapping) => {
+    reset();
+    setMapping(next);
+    setRows(applyColumnMapping(table, next));
+  };
+
+  const editMapping = () => {
+    reset();
+    setMapping(undefined);
+    setRows([]);
+  };
+
+  const toggleSort = (key: SortKey) =>
+    setSort((current) => ({
+      key,
+      direction: current.key === key && current.direction === "asc" ? "desc" : "asc",
+    }));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-accent/30 to-background">
+      <header className="max-w-5xl mx-auto px-4 pt-6 pb-8 flex flex-wrap items-center justify-between gap-2">
+        <AppNav />
+        <div className="flex items-center gap-2">
+          <UnitPreferencesMenu />
+          <BackendSettings />
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 pb-16 space-y-6">
+        <div className="medical-card p-8 space-y-6">
+          <div className="flex items-center gap-3">
+            <FileSpreadsheet className="h-6 w-6 text-primary" />
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Batch Predictions</h1>
+              <p className="text-sm text-muted-foreground">
+                Upload a CSV or XLSX file with a header row and one patient per row. Its columns are matched to{" "}
+                {Object.values(FORM_FIELD_LABELS).join(", ")}.
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="batchFile">Data file</Label>
+            <Input
+              id="batchFile"
+              type="file"
+              accept=".csv,text/csv,.xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(event) => loadFile(event.target.files?.[0])}
+            />
+          </div>
+
+          {fileError && (
+            <Alert variant="destructive">
+              <AlertTitle>Could not read {fileName}</AlertTitle>
+              <AlertDescription>{fileError}</AlertDescription>
+            </Alert>
+          )}
+
+          {table && !mapping && <ColumnMappingWizard key={fileName} table={table} onApply={applyMapping} />}
+
+          {mapping && (
+            <div className="flex flex-wrap items-center gap-4">
+              <span className="text-sm text-muted-foreground">
+                {rows.length} rows: {validRows.length} valid, {invalidRows.length} with errors
+              </span>
+              <Button variant="ghost" size="sm" disabled={state.status === "running"} onClick={editMapping}>
+                <Settings2 />
+                Edit mapping
+              </Button>
+              {state.status === "running" ? (
+                <Button variant="outline" onClick={cancel}>
+                  <Square />
+                  Cancel
+                </Button>
+              ) : (
+                <Button
+                  variant="medical"
+                  disabled={validRows.length === 0}
+                  onClick={() => run(validRows.map((row) => row.input))}
+                >
+                  <Play />
+                  Predict {validRows.length} rows
+                </Button>
+              )}
+            </div>
+          )}
+
+          {state.status === "running" && (
+            <div className="space-y-1">
+              <Progress value={(state.completed / Math.max(1, state.total)) * 100} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {state.completed} of {state.total} distinct rows predicted
+              </p>
+            </div>
+          )}
+          {state.status === "cancelled" && <p className="text-sm text-muted-foreground">The batch was cancelled.</p>}
+
+          {invalidRows.length > 0 && (
+            <div className="space-y-2">
+              <h2 className="font-semibold text-foreground">Rows with errors</h2>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-20">Row</TableHead>
+                    <TableHead>Problems</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invalidRows.map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      <TableCell className="text-destructive">{row.errors.join("; ")}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {results.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <h2 className="font-semibold text-foreground">Results</h2>
+                <ExportMenu predictions={exported} fileName="batch-predictions" />
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <SortableHead sortKey="line" sort={sort} onSort={toggleSort}>Row</SortableHead>
+                    <TableHead>Result</TableHead>
+                    <SortableHead sortKey="probability" sort={sort} onSort={toggleSort}>Probability</SortableHead>
+                    <SortableHead sortKey="hba1c" sort={sort} onSort={toggleSort}>HbA1c ({units.hba1c})</SortableHead>
+                    <SortableHead sortKey="bloodGlucose" sort={sort} onSort={toggleSort}>
+                      Glucose ({units.bloodGlucose})
+                    </SortableHead>
+                    <SortableHead sortKey="bmi" sort={sort} onSort={toggleSort}>BMI</SortableHead>
+                    <SortableHead sortKey="age" sort={sort} onSort={toggleSort}>Age</SortableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map(({ line, input, prediction, tier, error }) => (
+                    <TableRow key={line}>
+                      <TableCell>{line}</TableCell>
+                      <TableCell>
+                        {prediction ? (
+                          <div className="flex items-center gap-2">
+                            <RiskTierBadge tier={tier} />
+                            {prediction.source === "offline" && <Badge variant="outline">Offline</Badge>}
+                          </div>
+                        ) : (
+                          <span className="text-sm text-destructive">{error}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {prediction?.probability !== undefined ? `${Math.round(prediction.probability * 100)}%` : "–"}
+                      </TableCell>
+                      <TableCell>{formatLabNumber("hba1c", input.hba1c, units.hba1c)}</TableCell>
+                      <TableCell>{formatLabNumber("bloodGlucose", input.bloodGlucose, units.bloodGlucose)}</TableCell>
+                      <TableCell>{input.bmi}</TableCell>
+                      <TableCell>{input.age}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Batch;
@@ -0,0 +1,322 @@
+import { Fragment, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { History as HistoryIcon, Trash2, Upload } from "lucide-react";
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AppNav } from "@/components/AppNav";
+import { ExportMenu } from "@/components/ExportMenu";
+import { ProfileSwitcher } from "@/components/ProfileSwitcher";
+import { RiskTierBadge } from "@/components/RiskTierBadge";
+import { SortableHead, type SortState } from "@/components/SortableHead";
+import { TrendCharts } from "@/components/TrendCharts";
+import { UnitPreferencesMenu } from "@/components/UnitPreferencesMenu";
+import { usePatientProfiles } from "@/hooks/use-patient-profiles";
+import { usePredictionHistory } from "@/hooks/use-prediction-history";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import type { PredictionRecord } from "@/lib/prediction-history";
+import { RISK_TIER_LABELS, type RiskTier } from "@/lib/risk-tier";
+import { formatLabNumber } from "@/lib/units";
+
+const PAGE_SIZE = 10;
+
+type SortKey = "createdAt" | "probability" | "hba1c" | "bloodGlucose" | "bmi";
+
+const SORT_VALUES: Record<SortKey, (record: PredictionRecord) => number | string> = {
+  createdAt: (record) => record.createdAt,
+  probability: (record) => record.probability ?? -1,
+  hba1c: (record) => record.input.hba1c,
+  bloodGlucose: (record) => record.input.bloodGlucose,
+  bmi: (record) => record.input.bmi,
+};
+
+/** Page numbers to show: the first, the last, and two either side of the current page. */
+const visiblePages = (current: number, count: number) =>
+  Array.from({ length: count }, (_, index) => index + 1).filter(
+    (page) => page === 1 || page === count || Math.abs(page - current) <= 2,
+  );
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+const History = () => {
+  const navigate = useNavigate();
+  const { history, remove, clearAll } = usePredictionHistory();
+  const { activeProfile } = usePatientProfiles();
+  const [units] = useUnitPreferences();
+  const [tierFilter, setTierFilter] = useState<RiskTier | "all">("all");
+  const [sourceFilter, setSourceFilter] = useState<PredictionRecord["source"] | "all">("all");
+  const [sort, setSort] = useState<SortState<SortKey>>({ key: "createdAt", direction: "desc" });
+  const [page, setPage] = useState(1);
+
+  const records = useMemo(() => {
+    const filtered = (history.data ?? []).filter(
+      (record) =>
+        (tierFilter === "all" || record.tier === tierFilter) &&
+        (sourceFilter === "all" || record.source === sourceFilter),
+    );
+    const value = SORT_VALUES[sort.key];
+    const direction = sort.direction === "asc" ? 1 : -1;
+    return filtered.sort((a, b) => (value(a) < value(b) ? -direction : value(a) > value(b) ? direction : 0));
+  }, [history.data, tierFilter, sourceFilter, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(records.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount);
+  const pageRecords = records.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE);
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) => ({
+      key,
+      direction: current.key === key && current.direction === "desc" ? "asc" : "desc",
+    }));
+    setPage(1);
+  };
+
+  const goToPage = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    setPage(Math.min(Math.max(1, target), pageCount));
+  };
+
+  const loadIntoForm = (record: PredictionRecord) =>
+    navigate("/", { state: { prefill: record.input, bodyMeasurements: record.bodyMeasurements } });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-accent/30 to-background">
+      <header className="max-w-5xl mx-auto px-4 pt-6 pb-8 flex flex-wrap items-center justify-between gap-2">
+        <AppNav />
+        <div className="flex items-center gap-2">
+          <ProfileSwitcher />
+          <UnitPreferencesMenu />
+        </div>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 pb-16 space-y-6">
+        <div className="medical-card p-8 space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <HistoryIcon className="h-6 w-6 text-primary" />
+              <div>
+                <h1 className="text-2xl font-bold text-foreground">Prediction History</h1>
+                <p className="text-sm text-muted-foreground">
+                  {activeProfile ? `${activeProfile.name}, born ${activeProfile.dateOfBirth}` : "Anonymous entries"}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <ExportMenu predictions={records} fileName="prediction-history" />
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={!history.data?.length}>
+                    <Trash2 />
+                    Clear history
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Clear all saved predictions?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      This permanently removes every prediction saved for{" "}
+                      {activeProfile ? activeProfile.name : "anonymous entries"} in this browser.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction onClick={() => clearAll.mutate()}>Clear</AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          </div>
+
+          <Tabs defaultValue="table">
+            <TabsList>
+              <TabsTrigger value="table">Table</TabsTrigger>
+              <TabsTrigger value="trends">Trends</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="table" className="space-y-6">
+              <div className="flex flex-wrap items-center gap-4">
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="tierFilter" className="text-sm text-muted-foreground">
+                    Result
+                  </Label>
+                  <Select
+                    value={tierFilter}
+                    onValueChange={(value) => {
+                      setTierFilter(value as RiskTier | "all");
+                      setPage(1);
+                    }}
+                  >
+                    <SelectTrigger id="tierFilter" className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All results</SelectItem>
+                      {(Object.keys(RISK_TIER_LABELS) as RiskTier[]).map((tier) => (
+                        <SelectItem key={tier} value={tier}>
+                          {RISK_TIER_LABELS[tier]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor="sourceFilter" className="text-sm text-muted-foreground">
+                    Source
+                  </Label>
+                  <Select
+                    value={sourceFilter}
+                    onValueChange={(value) => {
+                      setSourceFilter(value as PredictionRecord["source"] | "all");
+                      setPage(1);
+                    }}
+                  >
+                    <SelectTrigger id="sourceFilter" className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All sources</SelectItem>
+                      <SelectItem value="server">Server</SelectItem>
+                      <SelectItem value="offline">Offline estimate</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <span className="text-sm text-muted-foreground ml-auto">
+                  {records.length} of {history.data?.length ?? 0} predictions
+                </span>
+              </div>
+
+              {history.isLoading ? (
+                <p className="text-muted-foreground">Loading history...</p>
+              ) : history.error ? (
+                <p className="text-destructive">Could not read the saved history: {history.error.message}</p>
+              ) : records.length === 0 ? (
+                <p className="text-muted-foreground">
+                  {history.data?.length ? "No predictions match these filters." : "No predictions have been saved yet."}
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <SortableHead sortKey="createdAt" sort={sort} onSort={toggleSort}>Date</SortableHead>
+                      <TableHead>Result</TableHead>
+                      <SortableHead sortKey="probability" sort={sort} onSort={toggleSort}>Probability</SortableHead>
+                      <SortableHead sortKey="hba1c" sort={sort} onSort={toggleSort}>HbA1c ({units.hba1c})</SortableHead>
+                      <SortableHead sortKey="bloodGlucose" sort={sort} onSort={toggleSort}>
+                        Glucose ({units.bloodGlucose})
+                      </SortableHead>
+                      <SortableHead sortKey="bmi" sort={sort} onSort={toggleSort}>BMI</SortableHead>
+                      <TableHead>Age</TableHead>
+                      <TableHead>Model</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pageRecords.map((record) => (
+                      <TableRow key={record.id}>
+                        <TableCell className="whitespace-nowrap">{formatDate(record.createdAt)}</TableCell>
+                        <TableCell>
+                          <RiskTierBadge tier={record.tier} />
+                        </TableCell>
+                        <TableCell>
+                          {record.probability !== undefined ? `${Math.round(record.probability * 100)}%` : "–"}
+                        </TableCell>
+                        <TableCell>{formatLabNumber("hba1c", record.input.hba1c, units.hba1c)}</TableCell>
+                        <TableCell>
+                          {formatLabNumber("bloodGlucose", record.input.bloodGlucose, units.bloodGlucose)}
+                        </TableCell>
+                        <TableCell>{record.input.bmi}</TableCell>
+                        <TableCell>{record.input.age}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-col gap-1">
+                            <span className="text-xs text-muted-foreground">{record.modelVersion ?? "unknown"}</span>
+                            {record.source === "offline" && (
+                              <Badge variant="outline" className="w-fit">
+                                Offline
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="sm" onClick={() => loadIntoForm(record)}>
+                            <Upload />
+                            Load
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Delete prediction"
+                            onClick={() => remove.mutate(record.id)}
+                          >
+                            <Trash2 />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {pageCount > 1 && (
+                <Pagination>
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious href="#" onClick={goToPage(currentPage - 1)} />
+                    </PaginationItem>
+                    {visiblePages(currentPage, pageCount).map((pageNumber, index, pages) => (
+                      <Fragment key={pageNumber}>
+                        {index > 0 && pageNumber - pages[index - 1] > 1 && (
+                          <PaginationItem>
+                            <PaginationEllipsis />
+                          </PaginationItem>
+                        )}
+                        <PaginationItem>
+                          <PaginationLink href="#" isActive={pageNumber === currentPage} onClick={goToPage(pageNumber)}>
+                            {pageNumber}
+                          </PaginationLink>
+                        </PaginationItem>
+                      </Fragment>
+                    ))}
+                    <PaginationItem>
+                      <PaginationNext href="#" onClick={goToPage(currentPage + 1)} />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
+            </TabsContent>
+
+            <TabsContent value="trends">
+              <TrendCharts records={history.data ?? []} />
+            </TabsContent>
+          </Tabs>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default History;
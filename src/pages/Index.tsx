@@ -1,7 +1,7 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
+import { Link, useLocation, useNavigate } from "react-router-dom";
 import { zodResolver } from "@hookform/resolvers/zod";
-import * as z from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -12,82 +12,213 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Alert, AlertDescription } from "@/components/ui/alert";
-import { ActivityIcon, AlertCircle, CheckCircle2 } from "lucide-react";
+import { ActivityIcon, Hospital } from "lucide-react";
 import medicalIcon from "@/assets/medical-icon.png";
+import {
+  FORM_FIELD_LABELS,
+  formInputSchema,
+  formSchema,
+  labInputRange,
+  toFormInput,
+  toFormLabValue,
+  type FormData,
+  type FormInput,
+} from "@/lib/prediction-schema";
+import { bmiFromMeasurements, formatHeight, formatWeight, type BodyMeasurements } from "@/lib/bmi";
+import { ageFromDateOfBirth } from "@/lib/patient-profiles";
+import { formatReferenceBands, type ReferenceBand } from "@/lib/reference-ranges";
+import { EXERCISE_SUGGESTIONS, SELF_CARE_DONTS, SELF_CARE_DOS } from "@/lib/self-care-guidance";
+import { getStandaloneIss } from "@/lib/smart-launch";
+import { LAB_UNIT_OPTIONS, LAB_UNIT_PRECISION, toCanonicalLabValue, type LabField, type LabUnits } from "@/lib/units";
+import { AppNav } from "@/components/AppNav";
+import { BackendSettings } from "@/components/BackendSettings";
+import { BmiCalculator } from "@/components/BmiCalculator";
+import { FhirImportDialog } from "@/components/FhirImportDialog";
+import { Hl7ImportDialog } from "@/components/Hl7ImportDialog";
+import { PredictionResultPanel } from "@/components/PredictionResultPanel";
+import { ProfileSwitcher } from "@/components/ProfileSwitcher";
+import { UnitPreferencesMenu } from "@/components/UnitPreferencesMenu";
+import { usePatientProfiles } from "@/hooks/use-patient-profiles";
+import { usePrediction } from "@/hooks/use-prediction";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import { toast } from "@/hooks/use-toast";
+
+const REFERENCE_ROWS: { band: ReferenceBand; condition: string }[] = [
+  { band: "normal", condition: "Normal" },
+  { band: "pre-diabetes", condition: "Pre-Diabetes" },
+  { band: "diabetes", condition: "Diabetes" },
+];
+
 
-const formSchema = z.object({
-  gender: z.string().min(1, "Please select gender"),
-  age: z.coerce.number().min(1, "Age must be at least 1").max(120, "Age must be less than 120"),
-  hypertension: z.string().min(1, "Please select hypertension status"),
-  heartDisease: z.string().min(1, "Please select heart disease status"),
-  smokingHistory: z.string().min(1, "Please select smoking history"),
-  bmi: z.coerce.number().min(10, "BMI must be at least 10").max(60, "BMI must be less than 60"),
-  hba1c: z.coerce.number().min(3, "HbA1c must be at least 3").max(15, "HbA1c must be less than 15"),
-  bloodGlucose: z.coerce.number().min(50, "Blood glucose must be at least 50").max(400, "Blood glucose must be less than 400"),
-});
-
-type FormData = z.infer<typeof formSchema>;
-
-interface PredictionResult {
-  prediction: "diabetic" | "non-diabetic";
-  confidence?: number;
+const smartIss = getStandaloneIss();
+
+interface LabUnitSelectProps<F extends LabField> {
+  field: F;
+  value: LabUnits[F];
+  onChange: (unit: LabUnits[F]) => void;
 }
 
+const LabUnitSelect = <F extends LabField>({ field, value, onChange }: LabUnitSelectProps<F>) => (
+  <Select value={value} onValueChange={(unit) => onChange(unit as LabUnits[F])}>
+    <SelectTrigger className="w-32" aria-label={`${FORM_FIELD_LABELS[field]} unit`}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {LAB_UNIT_OPTIONS[field].map((unit) => (
+        <SelectItem key={unit} value={unit}>
+          {unit}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
 const Index = () => {
-  const [result, setResult] = useState<PredictionResult | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const { state: predictionState, submit, retry, cancel } = usePrediction();
+  const isLoading = predictionState.status === "loading";
+  const [units] = useUnitPreferences();
 
   const {
     register,
     handleSubmit,
     setValue,
+    getValues,
+    getFieldState,
+    watch,
+    reset,
     formState: { errors },
-  } = useForm<FormData>({
-    resolver: zodResolver(formSchema),
+  } = useForm<FormInput, unknown, FormData>({
+    resolver: zodResolver(formInputSchema),
+    defaultValues: { hba1c: { unit: units.hba1c }, bloodGlucose: { unit: units.bloodGlucose } },
   });
 
-  const onSubmit = async (data: FormData) => {
-    setIsLoading(true);
-    setResult(null);
-  
-    try {
-      const response = await fetch("http://127.0.0.1:8000/predict", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          gender: data.gender,
-          age: Number(data.age),
-          hypertension: data.hypertension === "yes" ? 1 : 0,
-          heart_disease: data.heartDisease === "yes" ? 1 : 0,
-          smoking_history: data.smokingHistory,
-          bmi: Number(data.bmi),
-          HbA1c_level: Number(data.hba1c),
-          blood_glucose_level: Number(data.bloodGlucose)
-        }),
-      });
-  
-      const resultData = await response.json();
-  
-      // ✅ Adjust to match backend output key ("final_result")
-      setResult({
-        prediction:
-          resultData.final_result === "Diabetic" ? "diabetic" : "non-diabetic",
-        confidence: null, // optional for future
+  // While a request is in flight the button stays disabled until the user
+  // edits the form; resubmitting then cancels the stale request.
+  const [editedSinceSubmit, setEditedSinceSubmit] = useState(false);
+  useEffect(() => {
+    const subscription = watch(() => setEditedSinceSubmit(true));
+    return () => subscription.unsubscribe();
+  }, [watch]);
+
+  // Age and gender come from the active patient profile when there is one.
+  const { activeProfile } = usePatientProfiles();
+  useEffect(() => {
+    if (!activeProfile) return;
+    const age = ageFromDateOfBirth(activeProfile.dateOfBirth);
+    // An age that was valid when the profile was created can leave the form's range as time passes.
+    if (formSchema.shape.age.safeParse(age).success) {
+      setValue("age", age);
+    } else {
+      toast({
+        title: "Age not filled in",
+        description:
+          `${activeProfile.name}'s date of birth (${activeProfile.dateOfBirth}) gives an age of ${age}, ` +
+          "which the model can't use. Enter the age manually.",
+        variant: "destructive",
       });
-    } catch (error) {
-      console.error("Prediction request failed:", error);
-      setResult({ prediction: "Error connecting to server.", confidence: null });
     }
-  
-    setIsLoading(false);
+    setValue("gender", activeProfile.sex);
+  }, [activeProfile, setValue]);
+
+  // Switching a lab's unit converts what was entered, so the quantity stays the same.
+  const changeUnit = useCallback(
+    (field: LabField, unit: LabUnits[LabField]) => {
+      const { value, unit: previous } = getValues(field) ?? {};
+      if (unit === previous) return;
+      // Inputs hold strings; an empty one has nothing to convert.
+      const entered = String(value ?? "").trim() === "" ? NaN : Number(value);
+      if (Number.isFinite(entered)) {
+        setValue(`${field}.value`, toFormLabValue(field, toCanonicalLabValue(field, entered, previous), unit));
+      }
+      setValue(`${field}.unit`, unit, { shouldValidate: getFieldState(field).invalid });
+    },
+    [getValues, getFieldState, setValue],
+  );
+
+  // A new unit preference applies to the form straight away.
+  useEffect(() => {
+    changeUnit("hba1c", units.hba1c);
+    changeUnit("bloodGlucose", units.bloodGlucose);
+  }, [units, changeUnit]);
+
+  // Values from history and imports are in canonical units; the form shows them in its current ones.
+  const formUnits = useCallback(
+    (): LabUnits => ({ hba1c: getValues("hba1c.unit"), bloodGlucose: getValues("bloodGlucose.unit") }),
+    [getValues],
+  );
+
+  // Height and weight behind a calculated BMI, recorded with the prediction.
+  const [bodyMeasurements, setBodyMeasurements] = useState<BodyMeasurements>();
+  const bmi = watch("bmi");
+  useEffect(() => {
+    // Typing a different BMI means it no longer comes from these measurements.
+    if (bodyMeasurements && Number(bmi) !== bmiFromMeasurements(bodyMeasurements)) setBodyMeasurements(undefined);
+  }, [bmi, bodyMeasurements]);
+
+  const applyCalculatedBmi = (value: number, measurements: BodyMeasurements) => {
+    setValue("bmi", value, { shouldValidate: true });
+    setBodyMeasurements(measurements);
+  };
+
+  // Entries reloaded from the history page arrive as router state.
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { prefill, bodyMeasurements: prefillMeasurements } =
+    (location.state as { prefill?: FormData; bodyMeasurements?: BodyMeasurements } | null) ?? {};
+  useEffect(() => {
+    if (!prefill) return;
+    reset(toFormInput(prefill, formUnits()));
+    setBodyMeasurements(prefillMeasurements);
+    navigate(location.pathname, { replace: true, state: null });
+  }, [prefill, prefillMeasurements, reset, formUnits, navigate, location.pathname]);
+
+  const applyImported = useCallback(
+    (values: Partial<FormData>) => {
+      const input = toFormInput(values, formUnits());
+      for (const [field, value] of Object.entries(input) as [keyof FormInput, FormInput[keyof FormInput]][]) {
+        setValue(field, value, { shouldValidate: true });
+      }
+    },
+    [setValue, formUnits],
+  );
+
+  // Values pulled from the EHR by a SMART launch arrive the same way.
+  const imported = (location.state as { imported?: { values: Partial<FormData>; warnings: string[] } } | null)
+    ?.imported;
+  useEffect(() => {
+    if (!imported) return;
+    applyImported(imported.values);
+    const count = Object.keys(imported.values).length;
+    toast({
+      title: count ? `Filled ${count} field${count === 1 ? "" : "s"} from the EHR` : "The EHR record had no values",
+      description: imported.warnings.join(" ") || "Check the values before predicting.",
+    });
+    navigate(location.pathname, { replace: true, state: null });
+  }, [imported, applyImported, navigate, location.pathname]);
+
+  const hba1cUnit = watch("hba1c.unit");
+  const glucoseUnit = watch("bloodGlucose.unit");
+  const fastingBands = formatReferenceBands("fastingGlucose", units);
+  const afterMealBands = formatReferenceBands("afterMealGlucose", units);
+  const hba1cBands = formatReferenceBands("hba1c", units);
+
+  const onSubmit = (data: FormData) => {
+    setEditedSinceSubmit(false);
+    return submit(data, bodyMeasurements);
   };
-  
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-accent/30 to-background">
       {/* Hero Section */}
-      <header className="pt-12 pb-8 px-4 text-center animate-fade-in-up">
+      <header className="relative pt-12 pb-8 px-4 text-center animate-fade-in-up">
+        <div className="absolute top-4 left-4">
+          <AppNav />
+        </div>
+        <div className="absolute top-4 right-4 flex items-center gap-2">
+          <ProfileSwitcher />
+          <UnitPreferencesMenu />
+          <BackendSettings />
+        </div>
         <div className="max-w-4xl mx-auto">
           <div className="flex justify-center mb-6">
             <div className="relative">
@@ -135,13 +266,25 @@ const Index = () => {
 
         {/* Prediction Form */}
         <div className="medical-card medical-hover animate-scale-in p-8">
+          <div className="flex flex-wrap justify-end gap-2 mb-6">
+            {smartIss && (
+              <Button asChild variant="outline" size="sm">
+                <Link to="/smart/launch">
+                  <Hospital />
+                  Connect to EHR
+                </Link>
+              </Button>
+            )}
+            <FhirImportDialog onApply={applyImported} />
+            <Hl7ImportDialog onApply={applyImported} />
+          </div>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
             {/* Gender */}
             <div className="space-y-2">
               <Label htmlFor="gender" className="text-sm font-medium">
                 Gender <span className="text-destructive">*</span>
               </Label>
-              <Select onValueChange={(value) => setValue("gender", value)}>
+              <Select value={watch("gender") ?? ""} onValueChange={(value) => setValue("gender", value)}>
                 <SelectTrigger id="gender" className="w-full">
                   <SelectValue placeholder="Select gender" />
                 </SelectTrigger>
@@ -178,7 +321,7 @@ const Index = () => {
               <Label htmlFor="hypertension" className="text-sm font-medium">
                 Hypertension <span className="text-destructive">*</span>
               </Label>
-              <Select onValueChange={(value) => setValue("hypertension", value)}>
+              <Select value={watch("hypertension") ?? ""} onValueChange={(value) => setValue("hypertension", value)}>
                 <SelectTrigger id="hypertension" className="w-full">
                   <SelectValue placeholder="Select hypertension status" />
                 </SelectTrigger>
@@ -197,7 +340,7 @@ const Index = () => {
               <Label htmlFor="heartDisease" className="text-sm font-medium">
                 Heart Disease <span className="text-destructive">*</span>
               </Label>
-              <Select onValueChange={(value) => setValue("heartDisease", value)}>
+              <Select value={watch("heartDisease") ?? ""} onValueChange={(value) => setValue("heartDisease", value)}>
                 <SelectTrigger id="heartDisease" className="w-full">
                   <SelectValue placeholder="Select heart disease status" />
                 </SelectTrigger>
@@ -216,7 +359,7 @@ const Index = () => {
               <Label htmlFor="smokingHistory" className="text-sm font-medium">
                 Smoking History <span className="text-destructive">*</span>
               </Label>
-              <Select onValueChange={(value) => setValue("smokingHistory", value)}>
+              <Select value={watch("smokingHistory") ?? ""} onValueChange={(value) => setValue("smokingHistory", value)}>
                 <SelectTrigger id="smokingHistory" className="w-full">
                   <SelectValue placeholder="Select smoking history" />
                 </SelectTrigger>
@@ -238,14 +381,22 @@ const Index = () => {
               <Label htmlFor="bmi" className="text-sm font-medium">
                 BMI (Body Mass Index) <span className="text-destructive">*</span>
               </Label>
-              <Input
-                id="bmi"
-                type="number"
-                step="0.01"
-                placeholder="Enter BMI (e.g., 24.50)"
-                {...register("bmi")}
-                className="w-full"
-              />
+              <div className="flex gap-2">
+                <Input
+                  id="bmi"
+                  type="number"
+                  step="0.01"
+                  placeholder="Enter BMI (e.g., 24.50)"
+                  {...register("bmi")}
+                  className="flex-1"
+                />
+                <BmiCalculator measurements={bodyMeasurements} onApply={applyCalculatedBmi} />
+              </div>
+              {bodyMeasurements && (
+                <p className="text-xs text-muted-foreground">
+                  Calculated from {formatHeight(bodyMeasurements)}, {formatWeight(bodyMeasurements)}
+                </p>
+              )}
               {errors.bmi && (
                 <p className="text-sm text-destructive">{errors.bmi.message}</p>
               )}
@@ -254,35 +405,53 @@ const Index = () => {
             {/* HbA1c Level */}
             <div className="space-y-2">
               <Label htmlFor="hba1c" className="text-sm font-medium">
-                HbA1c Level (%) <span className="text-destructive">*</span>
+                HbA1c Level <span className="text-destructive">*</span>
               </Label>
-              <Input
-                id="hba1c"
-                type="number"
-                step="0.1"
-                placeholder="Enter HbA1c level (e.g., 5.7)"
-                {...register("hba1c")}
-                className="w-full"
-              />
-              {errors.hba1c && (
-                <p className="text-sm text-destructive">{errors.hba1c.message}</p>
+              <div className="flex gap-2">
+                <Input
+                  id="hba1c"
+                  type="number"
+                  step={10 ** -LAB_UNIT_PRECISION[hba1cUnit]}
+                  placeholder={`Enter HbA1c level (e.g., ${toFormLabValue("hba1c", 5.7, hba1cUnit)})`}
+                  {...register("hba1c.value")}
+                  className="flex-1"
+                />
+                <LabUnitSelect field="hba1c" value={hba1cUnit} onChange={(unit) => changeUnit("hba1c", unit)} />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {labInputRange("hba1c", hba1cUnit).min}–{labInputRange("hba1c", hba1cUnit).max} {hba1cUnit}
+              </p>
+              {errors.hba1c?.value && (
+                <p className="text-sm text-destructive">{errors.hba1c.value.message}</p>
               )}
             </div>
 
             {/* Blood Glucose Level */}
             <div className="space-y-2">
               <Label htmlFor="bloodGlucose" className="text-sm font-medium">
-                Blood Glucose Level (mg/dL) <span className="text-destructive">*</span>
+                Blood Glucose Level <span className="text-destructive">*</span>
               </Label>
-              <Input
-                id="bloodGlucose"
-                type="number"
-                placeholder="Enter blood glucose level"
-                {...register("bloodGlucose")}
-                className="w-full"
-              />
-              {errors.bloodGlucose && (
-                <p className="text-sm text-destructive">{errors.bloodGlucose.message}</p>
+              <div className="flex gap-2">
+                <Input
+                  id="bloodGlucose"
+                  type="number"
+                  step={10 ** -LAB_UNIT_PRECISION[glucoseUnit]}
+                  placeholder="Enter blood glucose level"
+                  {...register("bloodGlucose.value")}
+                  className="flex-1"
+                />
+                <LabUnitSelect
+                  field="bloodGlucose"
+                  value={glucoseUnit}
+                  onChange={(unit) => changeUnit("bloodGlucose", unit)}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {labInputRange("bloodGlucose", glucoseUnit).min}–{labInputRange("bloodGlucose", glucoseUnit).max}{" "}
+                {glucoseUnit}
+              </p>
+              {errors.bloodGlucose?.value && (
+                <p className="text-sm text-destructive">{errors.bloodGlucose.value.message}</p>
               )}
             </div>
 
@@ -292,9 +461,11 @@ const Index = () => {
               variant="medical"
               size="lg"
               className="w-full text-base font-semibold"
-              disabled={isLoading}
+              disabled={isLoading && !editedSinceSubmit}
             >
-              {isLoading ? (
+              {isLoading && editedSinceSubmit ? (
+                "Resubmit with Changes"
+              ) : isLoading ? (
                 <>
                   <ActivityIcon className="animate-spin" />
                   Analyzing...
@@ -306,42 +477,7 @@ const Index = () => {
           </form>
 
           {/* Result Display */}
-          {result && (
-            <div className="mt-8 animate-fade-in-up">
-              <Alert
-                variant={result.prediction === "diabetic" ? "destructive" : "default"}
-                className={
-                  result.prediction === "diabetic"
-                    ? "border-destructive bg-destructive/10"
-                    : "border-success bg-success/10"
-                }
-              >
-                {result.prediction === "diabetic" ? (
-                  <AlertCircle className="h-5 w-5 text-destructive" />
-                ) : (
-                  <CheckCircle2 className="h-5 w-5 text-success" />
-                )}
-                <AlertDescription className="ml-2">
-                  <div className="space-y-2">
-                    <p className="font-semibold text-base">
-                      {result.prediction === "diabetic"
-                        ? "High Risk: Diabetes Detected"
-                        : "Low Risk: No Diabetes Detected"}
-                    </p>
-                    {result.confidence && (
-                      <p className="text-sm opacity-90">
-                        Confidence: {(result.confidence * 100).toFixed(1)}%
-                      </p>
-                    )}
-                    <p className="text-sm mt-3 pt-3 border-t border-current/20">
-                      This is a model-generated medical risk estimation and not a diagnosis.
-                      Please consult with a healthcare professional for proper medical advice.
-                    </p>
-                  </div>
-                </AlertDescription>
-              </Alert>
-            </div>
-          )}
+          <PredictionResultPanel state={predictionState} onRetry={retry} onCancel={cancel} />
         </div>
 
         {/* Do's and Don'ts Section */}
@@ -351,21 +487,17 @@ const Index = () => {
             <div className="space-y-2">
               <h3 className="text-lg font-semibold text-success mb-3">Do's</h3>
               <ul className="list-disc list-inside text-muted-foreground space-y-2">
-                <li>Eat vegetables, whole grains, and lean protein.</li>
-                <li>Exercise or walk at least 30 minutes daily.</li>
-                <li>Drink adequate water.</li>
-                <li>Monitor blood sugar regularly.</li>
-                <li>Follow prescribed medication or insulin.</li>
+                {SELF_CARE_DOS.map((item) => (
+                  <li key={item}>{item}</li>
+                ))}
               </ul>
             </div>
             <div className="space-y-2">
               <h3 className="text-lg font-semibold text-destructive mb-3">Don'ts</h3>
               <ul className="list-disc list-inside text-muted-foreground space-y-2">
-                <li>Avoid sugary drinks like soda and packaged juices.</li>
-                <li>Do not skip meals.</li>
-                <li>Avoid smoking and limit alcohol.</li>
-                <li>Reduce fried and processed foods.</li>
-                <li>Do not self-adjust medication.</li>
+                {SELF_CARE_DONTS.map((item) => (
+                  <li key={item}>{item}</li>
+                ))}
               </ul>
             </div>
           </div>
@@ -379,30 +511,22 @@ const Index = () => {
               <thead>
                 <tr className="border-b border-border">
                   <th className="text-left py-3 px-4 font-semibold text-foreground">Condition</th>
-                  <th className="text-left py-3 px-4 font-semibold text-foreground">Fasting (mg/dL)</th>
-                  <th className="text-left py-3 px-4 font-semibold text-foreground">After Meal (mg/dL)</th>
-                  <th className="text-left py-3 px-4 font-semibold text-foreground">HbA1c (%)</th>
+                  <th className="text-left py-3 px-4 font-semibold text-foreground">Fasting ({units.bloodGlucose})</th>
+                  <th className="text-left py-3 px-4 font-semibold text-foreground">
+                    After Meal ({units.bloodGlucose})
+                  </th>
+                  <th className="text-left py-3 px-4 font-semibold text-foreground">HbA1c ({units.hba1c})</th>
                 </tr>
               </thead>
               <tbody>
-                <tr className="border-b border-border">
-                  <td className="py-3 px-4 text-muted-foreground">Normal</td>
-                  <td className="py-3 px-4 text-muted-foreground">&lt;100</td>
-                  <td className="py-3 px-4 text-muted-foreground">&lt;140</td>
-                  <td className="py-3 px-4 text-muted-foreground">&lt;5.7</td>
-                </tr>
-                <tr className="border-b border-border">
-                  <td className="py-3 px-4 text-muted-foreground">Pre-Diabetes</td>
-                  <td className="py-3 px-4 text-muted-foreground">100–125</td>
-                  <td className="py-3 px-4 text-muted-foreground">140–199</td>
-                  <td className="py-3 px-4 text-muted-foreground">5.7–6.4</td>
-                </tr>
-                <tr>
-                  <td className="py-3 px-4 text-muted-foreground">Diabetes</td>
-                  <td className="py-3 px-4 text-muted-foreground">≥126</td>
-                  <td className="py-3 px-4 text-muted-foreground">≥200</td>
-                  <td className="py-3 px-4 text-muted-foreground">≥6.5</td>
-                </tr>
+                {REFERENCE_ROWS.map((row, index) => (
+                  <tr key={row.band} className={index < REFERENCE_ROWS.length - 1 ? "border-b border-border" : undefined}>
+                    <td className="py-3 px-4 text-muted-foreground">{row.condition}</td>
+                    <td className="py-3 px-4 text-muted-foreground">{fastingBands[row.band]}</td>
+                    <td className="py-3 px-4 text-muted-foreground">{afterMealBands[row.band]}</td>
+                    <td className="py-3 px-4 text-muted-foreground">{hba1cBands[row.band]}</td>
+                  </tr>
+                ))}
               </tbody>
             </table>
           </div>
@@ -412,9 +536,9 @@ const Index = () => {
         <div className="medical-card medical-hover p-8">
           <h2 className="text-2xl font-bold text-foreground mb-4">Exercise Suggestions</h2>
           <ul className="list-disc list-inside text-muted-foreground space-y-2">
-            <li>30 minutes brisk walking</li>
-            <li>Light yoga or stretching</li>
-            <li>Strength or resistance training 3 times per week</li>
+            {EXERCISE_SUGGESTIONS.map((item) => (
+              <li key={item}>{item}</li>
+            ))}
           </ul>
         </div>
 
@@ -0,0 +1,340 @@
+import { useRef, useState } from "react";
+import { Link, useLocation } from "react-router-dom";
+import { ArrowLeft, FileDown, Printer } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RiskTierBadge } from "@/components/RiskTierBadge";
+import { usePatientProfiles } from "@/hooks/use-patient-profiles";
+import { toast } from "@/hooks/use-toast";
+import { useUnitPreferences } from "@/hooks/use-unit-preferences";
+import { formatHeight, formatWeight, type BodyMeasurements } from "@/lib/bmi";
+import { rankContributions } from "@/lib/feature-contributions";
+import { assessAgainstGuidelines, type GlucoseContext } from "@/lib/guideline-rules";
+import { ageFromDateOfBirth } from "@/lib/patient-profiles";
+import type { Prediction } from "@/lib/prediction-client";
+import {
+  CATEGORICAL_OPTIONS,
+  FORM_FIELD_LABELS,
+  type CategoricalField,
+  type FormData,
+} from "@/lib/prediction-schema";
+import {
+  formatMeasureValue,
+  formatReferenceBands,
+  REFERENCE_BAND_LABELS,
+  type ReferenceBand,
+} from "@/lib/reference-ranges";
+import { downloadReportPdf } from "@/lib/report-pdf";
+import { classifyRiskTier, labelProbabilityConflict, RISK_TIER_INFO } from "@/lib/risk-tier";
+import { EXERCISE_SUGGESTIONS, SELF_CARE_DONTS, SELF_CARE_DOS } from "@/lib/self-care-guidance";
+import { formatLabValue, type LabUnits } from "@/lib/units";
+import { cn } from "@/lib/utils";
+
+/** Sent as router state by the result panel's "Patient report" link. */
+interface ReportData {
+  input: FormData;
+  /** The profile the prediction was made for, which need not be the one active now. */
+  profileId: string | null;
+  bodyMeasurements?: BodyMeasurements;
+  prediction: Prediction;
+  completedAt: string;
+}
+
+const INPUT_UNITS: Partial<Record<keyof FormData, string>> = {
+  age: "years",
+  bmi: "kg/m²",
+};
+
+const BAND_TEXT_CLASSES: Record<ReferenceBand, string> = {
+  normal: "text-success",
+  "pre-diabetes": "text-warning",
+  diabetes: "text-destructive",
+};
+
+const formatInput = (field: keyof FormData, value: FormData[keyof FormData], units: LabUnits) => {
+  if (field === "hba1c" || field === "bloodGlucose") return formatLabValue(field, Number(value), units[field]);
+  const option = CATEGORICAL_OPTIONS[field as CategoricalField]?.find((candidate) => candidate.value === value);
+  return option ? option.label : [value, INPUT_UNITS[field]].filter(Boolean).join(" ");
+};
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: "long", timeStyle: "short" });
+
+const Section = ({ title, children }: { title?: string; children: React.ReactNode }) => (
+  <section data-report-section className="space-y-3 bg-card py-4">
+    {title && <h2 className="text-lg font-semibold text-foreground border-b border-border pb-1">{title}</h2>}
+    {children}
+  </section>
+);
+
+/**
+ * A patient-facing summary of one prediction, laid out for A4 paper. It is
+ * printed with the browser's print dialog or saved as a PDF built in the browser.
+ */
+const Report = () => {
+  const location = useLocation();
+  const report = (location.state as { report?: ReportData } | null)?.report;
+  const { profiles } = usePatientProfiles();
+  const [units] = useUnitPreferences();
+  const [glucoseContext, setGlucoseContext] = useState<GlucoseContext>("after-meal");
+  const [exporting, setExporting] = useState(false);
+  const sheetRef = useRef<HTMLDivElement>(null);
+
+  if (!report) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-4 text-center">
+        <p className="text-muted-foreground">There is no prediction to report. Run an assessment first.</p>
+        <Button asChild variant="medical">
+          <Link to="/">Go to the assessment</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const { input, profileId, bodyMeasurements, prediction, completedAt } = report;
+  const profile = profileId ? profiles.data?.find((candidate) => candidate.id === profileId) : undefined;
+  const tier = classifyRiskTier(prediction, input);
+  const tierInfo = RISK_TIER_INFO[tier];
+  const conflict = labelProbabilityConflict(prediction);
+  const { contributions, fromServer } = rankContributions(prediction, input);
+  const largestEffect = Math.max(...contributions.map(({ value }) => Math.abs(value)), 0.01);
+  const assessment = assessAgainstGuidelines(input, glucoseContext);
+
+  const savePdf = async () => {
+    const sections = [...(sheetRef.current?.querySelectorAll<HTMLElement>("[data-report-section]") ?? [])];
+    setExporting(true);
+    try {
+      await downloadReportPdf(sections, `diabetes-risk-report-${completedAt.slice(0, 10)}.pdf`);
+    } catch (error) {
+      toast({
+        title: "Could not create the PDF",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-accent/30 to-background print:bg-none">
+      <div className="max-w-3xl mx-auto px-4 pt-6 pb-4 flex flex-wrap items-center gap-2 print:hidden">
+        <Button asChild variant="ghost" size="sm">
+          <Link to="/">
+            <ArrowLeft />
+            Back
+          </Link>
+        </Button>
+        <div className="flex items-center gap-2 ml-auto">
+          <Label htmlFor="reportGlucoseContext" className="text-xs text-muted-foreground">
+            Glucose sample
+          </Label>
+          <Select value={glucoseContext} onValueChange={(value) => setGlucoseContext(value as GlucoseContext)}>
+            <SelectTrigger id="reportGlucoseContext" className="h-8 w-44 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="after-meal">After meal / random</SelectItem>
+              <SelectItem value="fasting">Fasting</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => window.print()}>
+            <Printer />
+            Print
+          </Button>
+          <Button variant="medical" size="sm" disabled={exporting} onClick={savePdf}>
+            <FileDown />
+            {exporting ? "Creating PDF..." : "Download PDF"}
+          </Button>
+        </div>
+      </div>
+
+      <main
+        ref={sheetRef}
+        className="medical-card max-w-3xl mx-auto mb-16 px-10 py-6 print:m-0 print:max-w-none print:p-0"
+      >
+        <Section>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Diabetes Risk Report</h1>
+              <p className="text-sm text-muted-foreground">Assessed {formatDateTime(completedAt)}</p>
+            </div>
+            <div className="text-sm text-right">
+              {profile ? (
+                <>
+                  <p className="font-medium text-foreground">{profile.name}</p>
+                  <p className="text-muted-foreground">
+                    Born {profile.dateOfBirth} (age {ageFromDateOfBirth(profile.dateOfBirth, new Date(completedAt))}{" "}
+                    when assessed)
+                  </p>
+                </>
+              ) : profileId && profiles.isPending ? null : (
+                <p className="text-muted-foreground">
+                  {profileId ? "Patient profile deleted" : "No patient profile"}
+                </p>
+              )}
+            </div>
+          </div>
+        </Section>
+
+        <Section title="Result">
+          <div className="flex flex-wrap items-center gap-3">
+            <RiskTierBadge tier={tier} className="text-sm" />
+            <p className="font-semibold text-foreground">{tierInfo.title}</p>
+          </div>
+          <p className="text-sm text-muted-foreground">{tierInfo.summary}</p>
+          {conflict && (
+            <p className="text-sm font-medium text-foreground">
+              {conflict} The result is shown as borderline until it is confirmed.
+            </p>
+          )}
+          <dl className="grid grid-cols-[max-content_1fr] gap-x-6 gap-y-1 text-sm">
+            <dt className="text-muted-foreground">Estimated probability of diabetes</dt>
+            <dd className="font-medium">
+              {prediction.probability !== undefined ? `${Math.round(prediction.probability * 100)}%` : "Not reported"}
+            </dd>
+            <dt className="text-muted-foreground">Model</dt>
+            <dd>
+              {prediction.modelVersion ?? "Unknown version"}
+              {prediction.source === "offline" && " (offline estimate made in the browser)"}
+            </dd>
+          </dl>
+        </Section>
+
+        <Section title="Your values">
+          <table className="w-full text-sm">
+            <tbody>
+              {(Object.keys(FORM_FIELD_LABELS) as (keyof FormData)[]).map((field) => (
+                <tr key={field} className="border-b border-border last:border-0">
+                  <td className="py-1.5 text-muted-foreground">{FORM_FIELD_LABELS[field]}</td>
+                  <td className="py-1.5 text-right font-medium">{formatInput(field, input[field], units)}</td>
+                </tr>
+              ))}
+              {bodyMeasurements && (
+                <tr className="border-b border-border last:border-0">
+                  <td className="py-1.5 text-muted-foreground">BMI calculated from</td>
+                  <td className="py-1.5 text-right font-medium">
+                    {formatHeight(bodyMeasurements)}, {formatWeight(bodyMeasurements)}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </Section>
+
+        <Section title="What drove this result">
+          <div className="space-y-1.5">
+            {contributions.map(({ feature, value }) => (
+              <div key={feature} className="grid grid-cols-[9rem_1fr_1fr_3rem] items-center gap-1 text-xs">
+                <span className="text-muted-foreground">{feature}</span>
+                <div className="flex justify-end">
+                  {value < 0 && (
+                    <div
+                      className="h-3 rounded-l bg-success"
+                      style={{ width: `${(-value / largestEffect) * 100}%` }}
+                    />
+                  )}
+                </div>
+                <div className="flex border-l border-border">
+                  {value > 0 && (
+                    <div
+                      className="h-3 rounded-r bg-destructive"
+                      style={{ width: `${(value / largestEffect) * 100}%` }}
+                    />
+                  )}
+                </div>
+                <span className="text-right tabular-nums">{value > 0 ? `+${value}` : value}</span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Red bars raised the estimated risk and green bars lowered it, compared with an average patient.
+            {fromServer ? "" : " Values are approximated with the offline model."}
+          </p>
+        </Section>
+
+        <Section title="Compared with reference ranges (ADA)">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border text-left">
+                <th className="py-1.5 font-semibold">Measure</th>
+                <th className="py-1.5 font-semibold">Your value</th>
+                <th className="py-1.5 font-semibold">Range</th>
+                <th className="py-1.5 font-semibold">Normal</th>
+                <th className="py-1.5 font-semibold">Pre-Diabetes</th>
+                <th className="py-1.5 font-semibold">Diabetes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {assessment.findings.map((finding) => {
+                const bands = formatReferenceBands(finding.measure, units);
+                return (
+                  <tr key={finding.measure} className="border-b border-border last:border-0">
+                    <td className="py-1.5">{finding.label}</td>
+                    <td className="py-1.5 font-medium">
+                      {formatMeasureValue(finding.measure, finding.value, units)}
+                    </td>
+                    <td className={cn("py-1.5 font-medium", BAND_TEXT_CLASSES[finding.band])}>
+                      {REFERENCE_BAND_LABELS[finding.band]}
+                    </td>
+                    <td className="py-1.5 text-muted-foreground">{bands.normal}</td>
+                    <td className="py-1.5 text-muted-foreground">{bands["pre-diabetes"]}</td>
+                    <td className="py-1.5 text-muted-foreground">{bands.diabetes}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </Section>
+
+        <Section title="Recommended next steps">
+          <ul className="list-disc list-inside text-sm space-y-1">
+            {tierInfo.guidance.map((item) => (
+              <li key={item}>{item}</li>
+            ))}
+          </ul>
+        </Section>
+
+        <Section title="Self-care">
+          <div className="grid grid-cols-2 gap-6 text-sm">
+            <div>
+              <h3 className="font-semibold text-success mb-1">Do's</h3>
+              <ul className="list-disc list-inside space-y-1">
+                {SELF_CARE_DOS.map((item) => (
+                  <li key={item}>{item}</li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <h3 className="font-semibold text-destructive mb-1">Don'ts</h3>
+              <ul className="list-disc list-inside space-y-1">
+                {SELF_CARE_DONTS.map((item) => (
+                  <li key={item}>{item}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+          <div className="text-sm">
+            <h3 className="font-semibold mb-1">Exercise suggestions</h3>
+            <ul className="list-disc list-inside space-y-1">
+              {EXERCISE_SUGGESTIONS.map((item) => (
+                <li key={item}>{item}</li>
+              ))}
+            </ul>
+          </div>
+        </Section>
+
+        <Section>
+          <p className="text-xs text-muted-foreground">
+            This is a model-generated medical risk estimation and not a diagnosis. Please consult with a healthcare
+            professional for proper medical advice.
+          </p>
+        </Section>
+      </main>
+    </div>
+  );
+};
+
+export default Report;
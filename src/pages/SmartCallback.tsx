@@ -0,0 +1,40 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+
+import { SmartLaunchStatus } from "@/components/SmartLaunchStatus";
+import { FhirImportError, readFhirBundle } from "@/lib/fhir-import";
+import { SmartLaunchError, completeSmartLaunch, fetchPatientBundle } from "@/lib/smart-launch";
+
+/** OAuth redirect target: trades the code for a token, loads the patient's data and hands it to the form. */
+const SmartCallback = () => {
+  const [params] = useSearchParams();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string>();
+  const handled = useRef(false);
+
+  useEffect(() => {
+    // Authorization codes are single use, so the exchange must not run twice.
+    if (handled.current) return;
+    handled.current = true;
+
+    (async () => {
+      const session = await completeSmartLaunch(params);
+      const { findings, warnings } = readFhirBundle(await fetchPatientBundle(session));
+      const values = Object.fromEntries(findings.map(({ field, value }) => [field, value]));
+      navigate("/", { replace: true, state: { imported: { values, warnings } } });
+    })().catch((caught) => {
+      if (caught instanceof SmartLaunchError) {
+        setError(caught.message);
+      } else if (caught instanceof FhirImportError) {
+        setError(`The EHR returned a record this app can't read. ${caught.message}`);
+      } else {
+        console.error("SMART launch failed:", caught);
+        setError("Something went wrong while loading the patient's record. Try again, or enter the values manually.");
+      }
+    });
+  }, [params, navigate]);
+
+  return <SmartLaunchStatus message="Loading the patient's record…" error={error} />;
+};
+
+export default SmartCallback;
@@ -0,0 +1,41 @@
+import { useEffect, useRef, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+
+import { SmartLaunchStatus } from "@/components/SmartLaunchStatus";
+import { SmartLaunchError, beginSmartLaunch, getStandaloneIss } from "@/lib/smart-launch";
+
+/**
+ * SMART App Launch entry point. An EHR opens it with `iss` and `launch`; without
+ * them it starts a standalone launch against the configured FHIR server.
+ */
+const SmartLaunch = () => {
+  const [params] = useSearchParams();
+  const [error, setError] = useState<string>();
+  const started = useRef(false);
+
+  useEffect(() => {
+    // Strict mode runs effects twice; a second launch would overwrite the stored PKCE verifier.
+    if (started.current) return;
+    started.current = true;
+
+    const iss = params.get("iss") ?? getStandaloneIss();
+    if (!iss) {
+      setError("No FHIR server was given. Launch the app from your EHR.");
+      return;
+    }
+    beginSmartLaunch({ iss, launch: params.get("launch") ?? undefined })
+      .then((authorizeUrl) => window.location.assign(authorizeUrl))
+      .catch((caught) => {
+        if (caught instanceof SmartLaunchError) {
+          setError(caught.message);
+        } else {
+          console.error("SMART launch failed:", caught);
+          setError("Something went wrong while connecting to the EHR. Try again, or enter the values manually.");
+        }
+      });
+  }, [params]);
+
+  return <SmartLaunchStatus message="Connecting to the EHR…" error={error} />;
+};
+
+export default SmartLaunch;
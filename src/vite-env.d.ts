@@ -1 +1,16 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the prediction backend, e.g. `https://api.example.com`. */
+  readonly VITE_PREDICTION_API_URL?: string;
+  /** `"true"` to start with the in-browser mock backend enabled. */
+  readonly VITE_USE_MOCK_BACKEND?: string;
+  /** OAuth client id registered with the EHR for SMART launches. */
+  readonly VITE_SMART_CLIENT_ID?: string;
+  /** FHIR base URL for standalone SMART launches. */
+  readonly VITE_SMART_ISS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}